@@ -0,0 +1,149 @@
+import type { Fetch } from "./index.js";
+
+export interface CassetteOptions {
+  /** JSON file the interactions are read from and saved to */
+  path: string;
+  /** "auto" replays an existing cassette and records a missing one, defaults to "auto" */
+  mode?: "record" | "replay" | "auto";
+  /** Fetch used to reach the network while recording, defaults to the global fetch */
+  fetch?: Fetch;
+  /** Additional values to redact, e.g. the login username and password */
+  secrets?: string[];
+}
+
+export interface Cassette {
+  mode: "record" | "replay";
+  /** Pass as `AppConfig.fetch` to record or replay all of the client's traffic */
+  fetch: Fetch;
+  /** Writes the recorded interactions with secrets redacted, does nothing when replaying */
+  save(): Promise<void>;
+}
+
+export interface CassetteInteraction {
+  request: { method: string; url: string; body?: unknown };
+  response: { status: number; statusText?: string; headers: Record<string, string>; body?: unknown };
+}
+
+interface CassetteFile {
+  version: 1;
+  interactions: CassetteInteraction[];
+}
+
+/** JSON fields, form fields and query parameters whose values are redacted */
+const SECRET_FIELDS = /^(access_token|refresh_token|code|code_verifier|client_secret|field_userid|field_password|\w*AccountKey|\w*ClientKey)$/i;
+
+/** Response headers that are never written to a cassette */
+const SECRET_HEADERS = ["set-cookie"];
+
+// Bodies are stored as JSON where possible so cassettes stay readable
+const decode = (text: string): unknown => {
+  if (!text) return undefined;
+  try {
+    const value = JSON.parse(text);
+    return value && typeof value === "object" ? value : text;
+  } catch {
+    return text;
+  }
+};
+
+const encode = (body: unknown) => body === undefined ? null : typeof body === "string" ? body : JSON.stringify(body);
+
+const searchParams = (value: string) => {
+  try {
+    return new URL(value, "http://localhost").searchParams;
+  } catch {
+    return undefined;
+  }
+};
+
+const collectSecrets = (value: unknown, secrets: Set<string>) => {
+  if (Array.isArray(value)) {
+    for (const item of value) collectSecrets(item, secrets);
+  } else if (value && typeof value === "object") {
+    for (const [key, item] of Object.entries(value)) {
+      if (SECRET_FIELDS.test(key) && typeof item === "string") secrets.add(item);
+      else collectSecrets(item, secrets);
+    }
+  } else if (typeof value === "string") {
+    // Form bodies and redirect locations carry secrets as parameters
+    const params = value.includes("?") ? searchParams(value)
+      : value.includes("=") && !value.includes(" ") ? new URLSearchParams(value)
+        : undefined;
+    for (const [key, item] of params ?? []) {
+      if (SECRET_FIELDS.test(key) && item) secrets.add(item);
+    }
+  }
+};
+
+/**
+ * Records the client's HTTP traffic to a JSON cassette, or replays a recorded cassette without network access.
+ * Replayed requests are matched on method and url, falling back to the next unused interaction for the same path
+ * since the login flow sends a random state.
+ */
+export const loadCassette = async (options: CassetteOptions): Promise<Cassette> => {
+  const { readFile, writeFile } = await import("node:fs/promises");
+  const existing = await readFile(options.path, "utf-8").then(
+    text => JSON.parse(text) as CassetteFile,
+    (error: NodeJS.ErrnoException) => {
+      if (error.code === "ENOENT") return undefined;
+      throw error;
+    }
+  );
+  const mode = options.mode === "auto" || !options.mode ? (existing ? "replay" : "record") : options.mode;
+  if (mode === "replay" && !existing) throw new Error(`Cassette ${options.path} has not been recorded`);
+
+  if (mode === "replay") {
+    const unused = [...existing!.interactions];
+    const take = (predicate: (interaction: CassetteInteraction) => boolean) => {
+      const index = unused.findIndex(predicate);
+      return index === -1 ? undefined : unused.splice(index, 1)[0];
+    };
+    const replay: Fetch = async (request) => {
+      const url = new URL(request.url);
+      const interaction = take(({ request: recorded }) => recorded.method === request.method && recorded.url === request.url)
+        ?? take(({ request: recorded }) => recorded.method === request.method && new URL(recorded.url).pathname === url.pathname);
+      if (!interaction) throw new Error(`No recorded response for ${request.method} ${url.pathname}`);
+
+      const { status, statusText, headers, body } = interaction.response;
+      return new Response([204, 205, 304].includes(status) ? null : encode(body), { status, statusText, headers });
+    };
+    return { mode, fetch: replay, save: async () => {} };
+  }
+
+  const interactions: CassetteInteraction[] = [];
+  const secrets = new Set(options.secrets);
+  const record: Fetch = async (request) => {
+    const authorization = request.headers.get("authorization")?.replace(/^(Bearer|Basic) /, "");
+    if (authorization) secrets.add(authorization);
+    const requestBody = request.body ? await request.clone().text() : "";
+
+    const response = await (options.fetch ?? fetch)(request);
+    const headers: Record<string, string> = {};
+    response.headers.forEach((value, name) => {
+      headers[name] = SECRET_HEADERS.includes(name) ? "redacted" : value;
+    });
+    interactions.push({
+      request: { method: request.method, url: request.url, body: decode(requestBody) },
+      response: { status: response.status, statusText: response.statusText || undefined, headers, body: decode(await response.clone().text()) },
+    });
+    return response;
+  };
+
+  const save = async () => {
+    for (const interaction of interactions) collectSecrets(interaction, secrets);
+    // Longer secrets first, so a secret containing another is replaced whole
+    const replacements = [...secrets].filter(secret => secret.length >= 4)
+      .sort((a, b) => b.length - a.length)
+      .map((secret, index) => [secret, `redacted-${index + 1}`] as const);
+    let text = JSON.stringify({ version: 1, interactions } satisfies CassetteFile, null, 2);
+    for (const [secret, placeholder] of replacements) {
+      text = text.replaceAll(secret, placeholder)
+        .replaceAll(encodeURIComponent(secret), placeholder)
+        .replaceAll(new URLSearchParams({ secret }).toString().slice("secret=".length), placeholder)
+        .replaceAll(JSON.stringify(secret).slice(1, -1), placeholder);
+    }
+    await writeFile(options.path, text + "\n");
+  };
+
+  return { mode, fetch: record, save };
+};
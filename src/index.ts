@@ -12,6 +12,17 @@ const encodeBase64 = (str: string): string => {
   }
 };
 
+// URL-safe base64 without padding, as required for PKCE
+const encodeBase64Url = (bytes: Uint8Array): string =>
+  encodeBase64(String.fromCharCode(...bytes)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+
+type WebCrypto = Pick<Crypto, "getRandomValues" | "randomUUID" | "subtle">;
+
+// Web Crypto is only exposed globally from Node.js 19
+const getCrypto = async (): Promise<WebCrypto> => globalThis.crypto ?? (await import("node:crypto")).webcrypto as WebCrypto;
+
+const randomString = (bytes: number, crypto: WebCrypto) => encodeBase64Url(crypto.getRandomValues(new Uint8Array(bytes)));
+
 const INTERNAL = Symbol("internal");
 const lock = <T>(obj: T): T => {
   Object.defineProperty(obj, INTERNAL, { enumerable: false });
@@ -20,10 +31,48 @@ const lock = <T>(obj: T): T => {
 
 export const internal = (obj: any) => obj[INTERNAL];
 
-interface TokenResponse {
+export interface TokenResponse {
   access_token: string;
   token_type: string;
+  /** Lifetime of the access token in seconds */
   expires_in: number;
+  /** Token used to obtain a new access token once the current one expires */
+  refresh_token?: string;
+  /** Lifetime of the refresh token in seconds */
+  refresh_token_expires_in?: number;
+}
+
+export interface StoredToken {
+  accessToken: string;
+  refreshToken?: string;
+  /** Expiry of the access token in epoch milliseconds */
+  expiresAt?: number;
+  /** Expiry of the refresh token in epoch milliseconds */
+  refreshTokenExpiresAt?: number;
+  /** PKCE code verifier, required to refresh tokens issued through the PKCE flow */
+  codeVerifier?: string;
+}
+
+/** Persists the session so it can be resumed after a restart */
+export interface TokenStore {
+  get(): StoredToken | undefined | Promise<StoredToken | undefined>;
+  set(token: StoredToken): void | Promise<void>;
+  clear(): void | Promise<void>;
+}
+
+/** Refresh the access token this many milliseconds before it expires */
+const TOKEN_REFRESH_MARGIN = 60_000;
+
+interface Session {
+  /** Returns a valid access token, refreshing it first if it is about to expire */
+  token(): Promise<string>;
+  /**
+   * Forces a token refresh, resolves to false when no refresh token is available.
+   * Passing the rejected token skips the refresh if it has already been replaced.
+   */
+  refresh(rejected?: string): Promise<boolean>;
+  /** Calls the listener after every refresh, returns a function that removes it */
+  onRefresh(listener: () => void): () => void;
 }
 
 export interface Client {
@@ -40,7 +89,29 @@ export interface Client {
   /** Get exposure information */
   getExposure(account_id?: string): Promise<Any>,
   /** Pre-check an order before placing it */
-  preCheckOrder(order: OrderRequest): Promise<PreCheckResult>,
+  preCheckOrder(order: OrderRequest, options?: RequestOptions): Promise<PreCheckResult>,
+  /** Search tradable instruments by keywords, asset types and exchange */
+  searchInstruments(query: InstrumentQuery): Promise<Instrument[]>,
+  /** Get the reference data of an instrument */
+  getInstrumentDetails(uic: number, assetType?: AssetType): Promise<Instrument>,
+  /** Get the contracts of an option root, of every expiry date unless given */
+  getOptionChain(rootId: number, expiryDates?: string[]): Promise<OptionChain>,
+  /** Get the current quote of an instrument */
+  getQuote(uic: number, assetType?: AssetType, fieldGroups?: PriceFieldGroup[]): Promise<Quote>,
+  /** Get the current quotes of several instruments of the same asset type */
+  getQuotes(uics: number[], assetType?: AssetType, fieldGroups?: PriceFieldGroup[]): Promise<Quote[]>,
+  /** Get the price history of an instrument, reading as many pages as the range needs */
+  getCandles(query: CandleQuery): Promise<Candle[]>,
+  /** Find the instrument with this symbol, e.g. "EURUSD" or "AAPL:xnas" */
+  resolveSymbol(symbol: string, assetType?: AssetType): Promise<Instrument>,
+  /** Current request queue depth and the rate limits last reported by Saxo */
+  getRateLimitMetrics(): RateLimitMetrics,
+  /** Stream live quotes for the instruments over the client's streaming connection */
+  subscribePrices(uics: number[], assetType?: AssetType, fieldGroups?: PriceFieldGroup[]): Promise<PriceSubscription>,
+  /** Keep the open positions of the client, or of one account, up to date */
+  subscribePositions(account_id?: string): Promise<LiveCollection<Position>>,
+  /** Keep the working orders of the client, or of one account, up to date */
+  subscribeOrders(account_id?: string): Promise<LiveCollection<Order>>,
 }
 
 export interface Account {
@@ -51,16 +122,43 @@ export interface Account {
   getBalance(): Promise<Balance>,
   getPositions(): Promise<Position[]>,
   getOrders(): Promise<Order[]>,
-  /** Place a buy order */
-  buy(uic: number, quantity: number, type?: Order["order_type"], price?: number, stop_limit?: number, options?: OrderOptions): Promise<Position | Order>,
-  /** Place a sell order */
-  sell(uic: number, quantity: number, type?: Order["order_type"], price?: number, stop_limit?: number, options?: OrderOptions): Promise<Position | Order>,
-  /** Cancel a specific order */
-  cancelOrder(orderId: string): Promise<void>,
+  /** Place a buy order for an instrument given by Uic or symbol */
+  buy(uic: number | string, quantity: number, type?: Order["order_type"], price?: number, stop_limit?: number, options?: OrderOptions): Promise<Position | Order>,
+  /** Place a sell order for an instrument given by Uic or symbol */
+  sell(uic: number | string, quantity: number, type?: Order["order_type"], price?: number, stop_limit?: number, options?: OrderOptions): Promise<Position | Order>,
+  /**
+   * Place an order described by its order type and the prices that type requires.
+   * Returns the filled position or the working order, or only what is known of the placed order while portfolio requests are throttled.
+   */
+  placeOrder(spec: OrderSpec): Promise<Position | Order>,
+  /** Place an order and follow it until it fills, is cancelled or is rejected */
+  submitOrder(spec: OrderSpec, options?: TrackOptions): Promise<OrderHandle>,
+  /** Follow a placed order until it fills, is cancelled or is rejected */
+  trackOrder(orderId: string, options?: TrackOptions): OrderHandle,
+  /** Place an order on two to four legs, such as option contracts, that fill together at a net price */
+  placeMultiLegOrder(spec: MultiLegOrderSpec): Promise<MultiLegOrder>,
+  /** Pre-check a multi-leg order before placing it */
+  preCheckMultiLegOrder(spec: MultiLegOrderSpec): Promise<PreCheckResult>,
+  /** Place two working orders on an instrument given by Uic or symbol, where the first to fill cancels the other */
+  placeOcoOrders(uic: number | string, first: OcoOrder, second: OcoOrder, options?: OrderOptions): Promise<OrderGroup>,
+  /** Close a position given by id, or part of it, with an order that offsets exactly that position */
+  closePosition(position: string | Position, options?: ClosePositionOptions): Promise<string>,
+  /** Close every open position at market, or only those on one instrument, a failure raises a SaxoCloseError listing the orders placed */
+  closeAllPositions(uic?: number): Promise<string[]>,
+  /** Cancel a specific order, passing an OCO order cancels its partner and a leg of a multi-leg order all its legs */
+  cancelOrder(order: string | Order): Promise<void>,
   /** Cancel all orders for a specific instrument */
   cancelAllOrders(uic: number, assetType?: AssetType): Promise<void>,
-  /** Modify an existing order */
+  /** Modify an existing order and its take profit and stop loss orders, keeping everything not changed */
+  modifyOrder(orderId: string, changes: OrderChanges): Promise<Order>,
+  /** Modify the price and quantity of an existing order */
   modifyOrder(orderId: string, price?: number, quantity?: number): Promise<Order>,
+  /** Keep the account's open positions up to date */
+  subscribePositions(): Promise<LiveCollection<Position>>,
+  /** Keep the account's working orders up to date */
+  subscribeOrders(): Promise<LiveCollection<Order>>,
+  /** Keep the account's balance up to date */
+  subscribeBalance(): Promise<BalanceSubscription>,
 }
 
 export interface Balance {
@@ -143,10 +241,86 @@ export interface OrderOptions {
   manualOrder?: boolean;
   /** Force open position (don't net against existing positions) */
   isForceOpen?: boolean;
-  /** Trailing stop distance to market */
+  /** Distance to market of trailing_stop orders placed with buy or sell */
   trailingStopDistanceToMarket?: number;
-  /** Trailing stop step size */
+  /** Step size of trailing_stop orders placed with buy or sell */
   trailingStopStep?: number;
+  /** Limit order closing the position at a profit once the order has filled */
+  takeProfit?: ExitOrder;
+  /** Stop order closing the position at a loss once the order has filled */
+  stopLoss?: StopLossOrder;
+  /** Option type, listed options are looked up in the chain of the option root given as Uic */
+  putCall?: PutCall;
+  /** Option strike price */
+  strike?: number;
+  /** Option expiry date as YYYY-MM-DD */
+  expiryDate?: string;
+  /** Whether an option order opens a new position or closes an existing one */
+  toOpenClose?: "ToOpen" | "ToClose";
+  /** Request id used to detect duplicate submissions (generated when omitted) */
+  requestId?: string;
+  /** Retry behaviour for this order, overriding the client configuration */
+  retry?: RetryOptions | false;
+}
+
+/** An order attached to an entry order, placed with a price or a distance from the entry price */
+export interface ExitOrder {
+  price?: number;
+  /** Distance from the entry price, or from the current quote for market orders */
+  distance?: number;
+  /** Order duration (defaults to GoodTillCancel) */
+  duration?: OrderDuration;
+}
+
+export interface StopLossOrder extends ExitOrder {
+  /** Trails the market at the stop's distance, moving in steps of this size */
+  trailingStep?: number;
+}
+
+interface OrderSpecBase extends Omit<OrderOptions, "trailingStopDistanceToMarket" | "trailingStopStep"> {
+  /** Instrument given by Uic or symbol */
+  uic: number | string;
+  type: Order["type"];
+  quantity: number;
+}
+
+/** An order to place, with the prices each order type requires */
+export type OrderSpec =
+  | OrderSpecBase & { order_type: "market" }
+  | OrderSpecBase & {
+    order_type: "limit" | "stop";
+    /** Limit price, or trigger price of stop orders */
+    price: number;
+  }
+  | OrderSpecBase & {
+    order_type: "stop_limit";
+    /** Trigger price */
+    price: number;
+    /** Limit price once triggered */
+    stop_limit: number;
+  }
+  | OrderSpecBase & {
+    order_type: "trailing_stop";
+    /** Initial trigger price */
+    price: number;
+    /** Distance the trigger price trails the market at */
+    distance: number;
+    /** Size of each move of the trigger price */
+    step: number;
+  };
+
+export interface RetryOptions {
+  /** Maximum number of retries (defaults to 2) */
+  retries?: number;
+  /** Base delay of the exponential backoff in milliseconds (defaults to 250) */
+  minDelay?: number;
+  /** Upper bound of a single backoff delay in milliseconds (defaults to 10000) */
+  maxDelay?: number;
+}
+
+export interface RequestOptions {
+  /** Retry behaviour for this call, overriding the client configuration */
+  retry?: RetryOptions | false;
 }
 
 export interface Order {
@@ -159,7 +333,7 @@ export interface Order {
   /** The type of order, either "buy" or "sell" */
   type: "buy" | "sell";
   /** The type of order execution */
-  order_type: "market" | "limit" | "stop" | "stop_limit";
+  order_type: "market" | "limit" | "stop" | "stop_limit" | "trailing_stop";
   /** The current status of the order */
   status: "filled" | "working" | "parked";
   /** The price at which the order is placed */
@@ -176,19 +350,395 @@ export interface Order {
   assetType?: AssetType;
   /** External reference if provided */
   externalReference?: string;
+  /** How long the order stays working */
+  duration?: OrderDuration;
+  /** Limit price of stop limit orders once triggered */
+  stop_limit?: number;
+  /** Distance a trailing stop order trails the market at */
+  distance?: number;
+  /** Size of each move of a trailing stop order */
+  step?: number;
+  /** How the order is linked to others, e.g. "IfDoneMaster" for an entry with exit orders attached */
+  relation?: string;
+  /** Orders linked to this one, such as the exits of an entry, each modified and cancelled through its id */
+  related?: RelatedOrder[];
+  /** The multi-leg order this order is a leg of, its price is the net price of all legs */
+  multiLeg?: {
+    /** Id shared by the legs, cancelling any leg cancels all of them */
+    id: string;
+    legCount: number;
+    /** Whether the net price is paid (buy) or received (sell) */
+    type: Order["type"];
+  };
+}
+
+/** Where an order is in its lifecycle, the last three states are final */
+export type OrderState = "working" | "partially_filled" | "filled" | "cancelled" | "rejected";
+
+export interface OrderEvent {
+  type: "partial_fill" | "fill" | "cancelled" | "rejected";
+  /** Quantity filled by this fill */
+  quantity?: number;
+  /** Price of this fill */
+  price?: number;
+  /** Why the order was rejected */
+  reason?: string;
+  time: Date;
+}
+
+export interface TrackOptions {
+  /** Milliseconds between reads of the order activity log (defaults to 1000) */
+  pollInterval?: number;
+}
+
+export interface WaitOptions {
+  /** Milliseconds to wait before rejecting with a SaxoOrderError, waits until a final state when omitted */
+  timeout?: number;
+}
+
+/**
+ * Follows an order until it reaches a final state, iterating yields its events.
+ * The order is only read while something waits for, listens to or iterates it, so a listener keeps
+ * reading (and the process alive) until the order ends, the listener is removed or stop() is called.
+ */
+export interface OrderHandle extends AsyncIterable<OrderEvent> {
+  readonly id: string;
+  readonly status: OrderState;
+  readonly filledQuantity: number;
+  /** Volume weighted price of the fills so far, as of the last read */
+  readonly averageFillPrice: number | undefined;
+  /** Resolves once the order has filled completely, rejects when it ends otherwise */
+  waitForFill(options?: WaitOptions): Promise<OrderHandle>;
+  /** Resolves once the order reaches one of the states, rejects when it ends in another */
+  waitForStatus(status: OrderState | OrderState[], options?: WaitOptions): Promise<OrderHandle>;
+  /** Calls the listener for every event of the given type, returns a function that removes it */
+  on(type: OrderEvent["type"], listener: (event: OrderEvent) => void): () => void;
+  /** Stops following the order before it reaches a final state */
+  stop(): void;
+}
+
+/** Changes to a working order, fields left out keep their current value */
+export interface OrderChanges {
+  /** Limit price, or trigger price of stop orders */
+  price?: number;
+  quantity?: number;
+  /** Limit price of stop limit orders once triggered */
+  stop_limit?: number;
+  duration?: OrderDuration;
+  /** Expire the order at this time, switching it to a GoodTillDate duration, cannot be combined with duration */
+  expiration?: Date;
+  /** Distance a trailing stop order trails the market at */
+  distance?: number;
+  /** Size of each move of a trailing stop order */
+  step?: number;
+  /** Changes to the take profit order attached to the order */
+  takeProfit?: Omit<OrderChanges, "takeProfit" | "stopLoss">;
+  /** Changes to the stop loss order attached to the order */
+  stopLoss?: Omit<OrderChanges, "takeProfit" | "stopLoss">;
+}
+
+/** One order of a one-cancels-other pair */
+export interface OcoOrder {
+  type: Order["type"];
+  order_type: Exclude<Order["order_type"], "market" | "trailing_stop">;
+  quantity: number;
+  /** Limit price, or trigger price of stop orders */
+  price: number;
+  /** Limit price of stop limit orders once triggered */
+  stop_limit?: number;
+  /** Order duration (defaults to GoodTillCancel) */
+  duration?: OrderDuration;
+}
+
+/** Orders placed together as a one-cancels-other pair */
+export interface OrderGroup {
+  /** Ids of the orders, in the order they were given */
+  ids: string[];
+  /** The orders still working after placement, a leg filling at once cancels the other */
+  orders: Order[];
+  /** Cancel every working order of the group */
+  cancel(): Promise<void>;
+}
+
+/** One leg of a multi-leg order */
+export interface OrderLeg {
+  /** The instrument of the leg, such as a contract from getOptionChain */
+  contract: Pick<OptionContract, "uic" | "assetType">;
+  type: Order["type"];
+  quantity: number;
+  toOpenClose?: "ToOpen" | "ToClose";
+}
+
+interface MultiLegOrderSpecBase extends Pick<OrderOptions, "duration" | "externalReference" | "manualOrder" | "requestId" | "retry"> {
+  /** Buy pays the net price of the legs, sell receives it */
+  type: Order["type"];
+  /** Two to four legs, placed and filled together */
+  legs: OrderLeg[];
+}
+
+/** A strategy such as a vertical spread or a straddle, traded at the net price of its legs */
+export type MultiLegOrderSpec =
+  | MultiLegOrderSpecBase & { order_type: "market" }
+  | MultiLegOrderSpecBase & {
+    order_type: "limit";
+    /** Net price of the legs */
+    price: number;
+  };
+
+/** The legs of a placed multi-leg order */
+export interface MultiLegOrder extends OrderGroup {
+  /** Id shared by the legs */
+  id: string;
+  /** The legs still working after placement, none once the order has filled */
+  orders: Order[];
+}
+
+export interface ClosePositionOptions {
+  /** Quantity to close (defaults to the whole position) */
+  quantity?: number;
+  /** Order type of the closing order (defaults to market) */
+  orderType?: "market" | "limit" | "stop";
+  /** Limit price, or trigger price of stop orders */
+  price?: number;
+}
+
+export interface RelatedOrder {
+  /** The unique identifier for the order */
+  id: string;
+  order_type: Order["order_type"];
+  status: Order["status"];
+  price: number;
+  quantity: number;
+}
+
+export type PutCall = "Put" | "Call";
+
+export interface OptionContract {
+  /** The Uic the contract is traded with */
+  uic: number;
+  assetType: AssetType;
+  putCall: PutCall;
+  strike: number;
+  /** Expiry date as YYYY-MM-DD */
+  expiryDate: string;
+}
+
+export interface OptionChain {
+  /** Id of the option root, the Uic of options found by searchInstruments */
+  rootId: number;
+  assetType: AssetType;
+  /** Every expiry date of the root as YYYY-MM-DD, in ascending order */
+  expiryDates: string[];
+  /** Contracts of the requested expiry dates */
+  contracts: OptionContract[];
+}
+
+export interface InstrumentQuery {
+  /** Matched against symbol and description, e.g. "EURUSD" or "apple" */
+  keywords?: string;
+  assetTypes?: AssetType[];
+  /** Only instruments traded on this exchange, e.g. "NASDAQ" */
+  exchangeId?: string;
+}
+
+export interface Instrument {
+  /** The unique identifier for the instrument */
+  uic: number;
+  /** Asset type of the instrument */
+  assetType: AssetType;
+  /** Ticker symbol, e.g. "EURUSD" or "AAPL:xnas" */
+  symbol: string;
+  description: string;
+  /** Currency the instrument is priced in */
+  currency: string;
+  /** The identifier for the exchange where the instrument is traded */
+  exchangeId: string;
+  /** Smallest price increment, only returned by getInstrumentDetails */
+  tickSize?: number;
+  /** Amount traded per lot, only returned by getInstrumentDetails */
+  lotSize?: number;
+  /** Smallest amount an order can have, only returned by getInstrumentDetails */
+  minAmount?: number;
+  /** Order types Saxo accepts for the instrument, e.g. "Market", "Limit" or "StopIfTraded" */
+  orderTypes: string[];
+  /** Order durations Saxo accepts for the instrument, e.g. "DayOrder" or "GoodTillCancel" */
+  durations: string[];
+}
+
+export interface Quote {
+  /** The unique identifier for the instrument */
+  uic: number;
+  /** Asset type of the instrument */
+  assetType: AssetType;
+  /** Time of the last price update */
+  time: Date;
+  bid: number;
+  ask: number;
+  mid: number;
+  bidSize?: number;
+  askSize?: number;
+  /** Last traded price, requires the PriceInfoDetails field group */
+  last?: number;
+  /** Whether the prices are delayed rather than real-time */
+  delayed?: boolean;
+  /** Trading state of the market, e.g. "Open" or "Closed" */
+  marketState?: string;
+}
+
+/** Minutes per candle */
+export type CandleHorizon = 1 | 5 | 10 | 15 | 30 | 60 | 120 | 240 | 360 | 480 | 1440 | 10080 | 43200;
+
+export interface CandleQuery {
+  uic: number;
+  /** Defaults to FxSpot */
+  assetType?: AssetType;
+  horizon: CandleHorizon;
+  /** "UpTo" reads back from `to` (defaults to now), "From" reads forward from `from`, defaults to "UpTo" */
+  mode?: "UpTo" | "From";
+  from?: Date;
+  to?: Date;
+  /** Maximum number of candles, a single page is read when neither this nor the far end of the range is given */
+  count?: number;
+}
+
+export interface Ohlc {
+  open: number;
+  high: number;
+  low: number;
+  close: number;
+}
+
+/** Prices of one horizon, the mid of bid and ask for instruments quoted on both sides such as FX */
+export interface Candle extends Ohlc {
+  /** Start of the candle */
+  time: Date;
+  /** Traded volume, for exchange traded instruments */
+  volume?: number;
+  bid?: Ohlc;
+  ask?: Ohlc;
+}
+
+export type PriceFieldGroup =
+  | "Quote"
+  | "DisplayAndFormat"
+  | "InstrumentPriceDetails"
+  | "MarketDepth"
+  | "PriceInfo"
+  | "PriceInfoDetails"
+  | "HistoricalChanges"
+  | "Commissions"
+  | "Greeks";
+
+/** Live updates of a single value, iterable until the subscription ends */
+export interface Stream<T> extends AsyncIterable<T> {
+  /** Latest value, undefined until the snapshot has arrived */
+  readonly current: T | undefined;
+  /** Calls the listener on every update, returns a function that removes it */
+  on(listener: (value: T) => void): () => void;
+}
+
+export interface PriceSubscription extends AsyncIterable<Quote> {
+  /** Changes when the subscription is re-created after a reset or reconnect */
+  readonly referenceId: string;
+  /** Latest quote of every subscribed instrument */
+  quotes(): Quote[];
+  /** Quotes of a single subscribed instrument */
+  instrument(uic: number): Stream<Quote>;
+  /** Calls the listener on every quote update, returns a function that removes it */
+  on(listener: (quote: Quote) => void): () => void;
+  /** Deletes the subscription and ends its streams */
+  unsubscribe(): Promise<void>;
+}
+
+export interface CollectionEvent<T> {
+  type: "added" | "updated" | "removed";
+  item: T;
+}
+
+/** A collection kept current by a streaming subscription, iterating yields every change */
+export interface LiveCollection<T> extends AsyncIterable<CollectionEvent<T>> {
+  /** Changes when the subscription is re-created after a reset or reconnect */
+  readonly referenceId: string;
+  /** Current items */
+  items(): T[];
+  get(id: string): T | undefined;
+  /** Calls the listener for every change of the given type, returns a function that removes it */
+  on(type: CollectionEvent<T>["type"], listener: (item: T) => void): () => void;
+  /** Deletes the subscription and ends its iterators */
+  unsubscribe(): Promise<void>;
+}
+
+export interface BalanceSubscription extends Stream<Balance> {
+  /** Changes when the subscription is re-created after a reset or reconnect */
+  readonly referenceId: string;
+  /** Deletes the subscription and ends its iterators */
+  unsubscribe(): Promise<void>;
 }
 
 export interface AppConfig {
   /** Saxobank app key */
   appKey: string;
-  /** Saxobank app secret */
-  appSecret: string;
+  /** Saxobank app secret (not issued for PKCE apps) */
+  appSecret?: string;
   /** OAuth redirect URI */
   redirectUri: string;
   /** API gateway endpoint (defaults to sim) */
   apiEndpoint?: string;
   /** Auth endpoint (defaults to sim) */
   authEndpoint?: string;
+  /** Called whenever the access token has been refreshed */
+  onTokenRefreshed?: (token: TokenResponse) => void | Promise<void>;
+  /** Store used to resume the session and persist refreshed tokens */
+  tokenStore?: TokenStore;
+  /**
+   * How read methods handle failures (defaults to "throw").
+   * "empty" restores the legacy behaviour of returning an empty result.
+   */
+  errorMode?: "throw" | "empty";
+  /**
+   * Retries for failed GET requests and order submissions (set to false to disable).
+   * Network errors, 429 and 5xx responses are retried with jittered exponential backoff.
+   */
+  retry?: RetryOptions | false;
+  /** Replaces the global fetch, e.g. to add a proxy or a test double */
+  fetch?: Fetch;
+  /** Hooks applied to every HTTP request made by the client, including authentication */
+  middleware?: Middleware[];
+  /** Streaming endpoint (defaults to sim) */
+  streamingEndpoint?: string;
+  /** WebSocket implementation used for streaming, defaults to the global WebSocket (e.g. pass `ws` on Node.js 20) */
+  WebSocket?: typeof WebSocket;
+  /** Heartbeat and reconnection settings of the streaming connection */
+  streaming?: StreamingOptions;
+}
+
+export interface StreamingOptions {
+  /** Reconnect when nothing, not even a heartbeat, has arrived for this many milliseconds (defaults to 60000) */
+  heartbeatTimeout?: number;
+  /** Backoff between reconnection attempts, which continue until every subscription is deleted (defaults to 1000 to 30000 ms) */
+  reconnect?: Pick<RetryOptions, "minDelay" | "maxDelay">;
+}
+
+export type Fetch = (request: Request) => Promise<Response>;
+
+/**
+ * Request hooks, run in order before a request is sent and in reverse order once it completes.
+ * Each hook may return a replacement, or nothing to keep the current request or response.
+ */
+export interface Middleware {
+  onRequest?(request: Request): Request | void | Promise<Request | void>;
+  onResponse?(response: Response, request: Request): Response | void | Promise<Response | void>;
+  /** Called when no response was received, returning a response recovers from the error */
+  onError?(error: unknown, request: Request): Response | void | Promise<Response | void>;
+}
+
+type ClientConfig = AppConfig & Required<Pick<AppConfig, "apiEndpoint" | "authEndpoint" | "streamingEndpoint" | "errorMode" | "retry">>;
+
+/** Everything a request needs, shared by all calls made through one client */
+interface Transport {
+  session: Session;
+  config: ClientConfig;
+  limiter: RateLimiter;
 }
 
 export interface OrderRequest {
@@ -204,6 +754,12 @@ export interface OrderRequest {
   externalReference?: string;
   manualOrder?: boolean;
   isForceOpen?: boolean;
+  /** Option type of FX option orders */
+  putCall?: PutCall;
+  strike?: number;
+  /** Option expiry date as YYYY-MM-DD */
+  expiryDate?: string;
+  toOpenClose?: "ToOpen" | "ToClose";
 }
 
 export interface PreCheckResult {
@@ -228,15 +784,135 @@ export interface PreCheckResult {
   preCheckResult?: string;
 }
 
-type Credentials = {
+export interface SaxoErrorDetails {
+  /** HTTP status code, 0 when no response was received */
+  status: number;
+  /** Saxo error code, e.g. "InsufficientFunds" or "MarketClosed" */
+  errorCode?: string;
+  /** Validation messages keyed by request field */
+  modelState?: Record<string, string[]>;
+  /** Correlation id of the request, useful when contacting Saxo support */
+  requestId?: string;
+  /** The API endpoint that failed */
+  endpoint?: string;
+  /** The underlying error, if any */
+  cause?: unknown;
+}
+
+/** Base class for every error raised by the client */
+export class SaxoApiError extends Error {
+  name = "SaxoApiError";
+  readonly status: number;
+  readonly errorCode?: string;
+  readonly modelState?: Record<string, string[]>;
+  readonly requestId?: string;
+  readonly endpoint?: string;
+
+  constructor(message: string, details: SaxoErrorDetails) {
+    super(message, { cause: details.cause });
+    this.status = details.status;
+    this.errorCode = details.errorCode;
+    this.modelState = details.modelState;
+    this.requestId = details.requestId;
+    this.endpoint = details.endpoint;
+  }
+}
+
+/** Authentication failed, or the token is invalid, expired or lacks permissions */
+export class SaxoAuthError extends SaxoApiError {
+  name = "SaxoAuthError";
+}
+
+/** The request was throttled by Saxo's rate limits */
+export class SaxoRateLimitError extends SaxoApiError {
+  name = "SaxoRateLimitError";
+  /** Seconds to wait before retrying, when reported by the API */
+  readonly retryAfter?: number;
+
+  constructor(message: string, details: SaxoErrorDetails & { retryAfter?: number }) {
+    super(message, details);
+    this.retryAfter = details.retryAfter;
+  }
+}
+
+/** The request was rejected because of invalid input */
+export class SaxoValidationError extends SaxoApiError {
+  name = "SaxoValidationError";
+}
+
+/** Several instruments share the symbol, pass an asset type to choose one */
+export class SaxoAmbiguousSymbolError extends SaxoValidationError {
+  name = "SaxoAmbiguousSymbolError";
+  /** The matching instruments */
+  readonly candidates: Instrument[];
+
+  constructor(message: string, details: SaxoErrorDetails & { candidates: Instrument[] }) {
+    super(message, details);
+    this.candidates = details.candidates;
+  }
+}
+
+/** An order ended without reaching the awaited state, or the wait timed out */
+export class SaxoOrderError extends SaxoApiError {
+  name = "SaxoOrderError";
+  readonly orderId: string;
+  /** State of the order when the wait ended */
+  readonly state: OrderState;
+
+  constructor(message: string, details: SaxoErrorDetails & { orderId: string; state: OrderState }) {
+    super(message, details);
+    this.orderId = details.orderId;
+    this.state = details.state;
+  }
+}
+
+/** Closing several positions stopped at one that failed, the positions before it stay closed */
+export class SaxoCloseError extends SaxoApiError {
+  name = "SaxoCloseError";
+  /** Ids of the closing orders placed before the failure */
+  readonly orderIds: string[];
+  /** Id of the position that could not be closed */
+  readonly positionId: string;
+
+  constructor(message: string, details: SaxoErrorDetails & { orderIds: string[]; positionId: string }) {
+    super(message, details);
+    this.orderIds = details.orderIds;
+    this.positionId = details.positionId;
+  }
+}
+
+/** A retried order submission was rejected as a duplicate, so an earlier attempt may have placed the order */
+export class SaxoUnconfirmedOrderError extends SaxoApiError {
+  name = "SaxoUnconfirmedOrderError";
+}
+
+/** No response was received from the API */
+export class SaxoNetworkError extends SaxoApiError {
+  name = "SaxoNetworkError";
+}
+
+export type Credentials = {
   type: "account";
   username: string;
   password: string;
 } | {
   type: "token";
   token: string;
+  /** Refresh token, enables automatic renewal of the access token */
+  refreshToken?: string;
+  /** Remaining lifetime of the access token in seconds */
+  expiresIn?: number;
+} | {
+  type: "pkce";
+  /** Called with the authorization URL, which has to be opened in a browser */
+  authorize: (url: string) => void | Promise<void>;
+  /** Milliseconds to wait for the redirect back to `redirectUri` (defaults to 5 minutes) */
+  timeout?: number;
 }
 
+/** Default time to wait for the user to complete a PKCE login */
+const PKCE_TIMEOUT = 5 * 60_000;
+
 const authenticate = async (username: string, password: string, config: AppConfig): Promise<TokenResponse> => {
   const STATE = Math.random().toString(36).substring(2, 15) + Math.random().toString(36).substring(2, 15);
   // Step 1: Generate auth URL and fetch initial login page
@@ -247,14 +923,14 @@ const authenticate = async (username: string, password: string, config: AppConfi
     redirect_uri: config.redirectUri,
   });
   const authUrl = `${config.authEndpoint}/authorize?${params.toString()}`;
-  const initialResponse = await fetch(authUrl, { redirect: "manual" });
+  const initialResponse = await send(config, authUrl, { redirect: "manual" });
   const loginUrl = initialResponse.headers.get("location");
   if (!loginUrl || !loginUrl.includes("saxobank.com")) {
-    throw new Error("Unexpected redirect during authentication");
+    throw new SaxoAuthError("Unexpected redirect during authentication", { status: initialResponse.status, endpoint: "/authorize" });
   }
 
   // Step 2: Submit login credentials
-  const loginResponse = await fetch(loginUrl, {
+  const loginResponse = await send(config, loginUrl, {
     method: "POST",
     headers: {
       "Accept": "text/html,application/xhtml+xml,application/xml;q=0.9,*/*;q=0.8",
@@ -276,10 +952,10 @@ const authenticate = async (username: string, password: string, config: AppConfi
   // Step 3: Handle redirects after login
   const postLoginUrl = loginResponse.headers.get("location");
   if (!postLoginUrl) {
-    throw new Error("Login failed, no redirect received");
+    throw new SaxoAuthError("Login failed, no redirect received", { status: loginResponse.status, endpoint: new URL(loginUrl).pathname });
   }
 
-  const finalResponse = await fetch(postLoginUrl, {
+  const finalResponse = await send(config, postLoginUrl, {
     headers: {
       "Cookie": loginResponse.headers.get("set-cookie") || "",
     },
@@ -289,288 +965,1491 @@ const authenticate = async (username: string, password: string, config: AppConfi
   const authCode = finalUrl.searchParams.get("code");
 
   if (!authCode) {
-    throw new Error("Failed to retrieve authorization code");
+    throw new SaxoAuthError("Failed to retrieve authorization code", { status: finalResponse.status, endpoint: new URL(postLoginUrl).pathname });
   }
 
   // Step 4: Exchange authorization code for an access token
-  const credentials = encodeBase64(`${config.appKey}:${config.appSecret}`);
-  const tokenResponse = await fetch(`${config.authEndpoint}/token`, {
+  return await requestToken(config, {
+    grant_type: "authorization_code",
+    code: authCode,
+    redirect_uri: config.redirectUri,
+  });
+};
+
+const authenticatePkce = async (auth: Extract<Credentials, { type: "pkce" }>, config: AppConfig): Promise<{ token: TokenResponse, verifier: string }> => {
+  const crypto = await getCrypto();
+  const state = randomString(16, crypto);
+  const verifier = randomString(32, crypto);
+  const challenge = encodeBase64Url(new Uint8Array(await crypto.subtle.digest("SHA-256", new TextEncoder().encode(verifier))));
+
+  // Step 1: Listen for the redirect before handing the authorization URL to the caller
+  const redirect = await waitForRedirect(config.redirectUri, state, auth.timeout ?? PKCE_TIMEOUT);
+
+  const params = new URLSearchParams({
+    response_type: "code",
+    client_id: config.appKey,
+    state,
+    redirect_uri: config.redirectUri,
+    code_challenge: challenge,
+    code_challenge_method: "S256",
+  });
+  try {
+    await auth.authorize(`${config.authEndpoint}/authorize?${params.toString()}`);
+  } catch (error) {
+    redirect.cancel();
+    throw error;
+  }
+  const code = await redirect.code;
+
+  // Step 2: Exchange the authorization code and verifier for an access token
+  const token = await requestToken(config, {
+    grant_type: "authorization_code",
+    code,
+    code_verifier: verifier,
+    redirect_uri: config.redirectUri,
+  });
+  return { token, verifier };
+};
+
+const waitForRedirect = async (redirectUri: string, state: string, timeout: number) => {
+  const target = new URL(redirectUri);
+  if (target.protocol !== "http:" || !["localhost", "127.0.0.1", "[::1]"].includes(target.hostname)) {
+    throw new Error("PKCE login requires a loopback redirect URI, e.g. http://localhost:5000/callback");
+  }
+
+  const { createServer } = await import("node:http");
+  let finish: (error?: Error, code?: string) => void = () => {};
+  const code = new Promise<string>((resolve, reject) => {
+    finish = (error, result) => {
+      clearTimeout(timer);
+      server.close();
+      if (error) reject(error); else resolve(result!);
+    };
+  });
+  // Avoid unhandled rejections when the caller bails out before awaiting the code
+  code.catch(() => {});
+
+  const server = createServer((req, res) => {
+    const url = new URL(req.url ?? "/", target.origin);
+    if (url.pathname !== target.pathname) {
+      res.writeHead(404).end();
+      return;
+    }
+    const error = url.searchParams.get("error");
+    const received = url.searchParams.get("code");
+    const failure = error ? `Authorization failed: ${url.searchParams.get("error_description") || error}`
+      : url.searchParams.get("state") !== state ? "Authorization failed: state mismatch"
+        : !received ? "Failed to retrieve authorization code"
+          : undefined;
+    const endpoint = target.pathname;
+    res.writeHead(failure ? 400 : 200, { "Content-Type": "text/html; charset=utf-8" });
+    res.end(failure ? `<p>${failure}</p>` : "<p>Login completed, you can close this window.</p>");
+    finish(failure ? new SaxoAuthError(failure, { status: 0, errorCode: error ?? undefined, endpoint }) : undefined, received ?? undefined);
+  });
+  const timer = setTimeout(() => finish(new SaxoAuthError("Timed out waiting for the authorization redirect", { status: 0, endpoint: target.pathname })), timeout);
+
+  await new Promise<void>((resolve, reject) => {
+    server.once("error", (error) => {
+      clearTimeout(timer);
+      reject(error);
+    });
+    server.listen(Number(target.port) || 80, target.hostname.replace(/^\[|\]$/g, ""), resolve);
+  });
+  return { code, cancel: () => finish(new SaxoAuthError("Authorization cancelled", { status: 0, endpoint: target.pathname })) };
+};
+
+const requestToken = async (config: AppConfig, params: Record<string, string>): Promise<TokenResponse> => {
+  // Confidential apps authenticate with their secret, PKCE apps only identify themselves
+  const tokenResponse = await send(config, `${config.authEndpoint}/token`, {
     method: "POST",
     headers: {
-      "Authorization": `Basic ${credentials}`,
+      ...config.appSecret && { "Authorization": `Basic ${encodeBase64(`${config.appKey}:${config.appSecret}`)}` },
       "Content-Type": "application/x-www-form-urlencoded",
     },
-    body: new URLSearchParams({
-      grant_type: "authorization_code",
-      code: authCode,
-      redirect_uri: config.redirectUri,
-    }),
+    body: new URLSearchParams(config.appSecret ? params : { ...params, client_id: config.appKey }),
   });
 
   if (!tokenResponse.ok) {
-    throw new Error(`Failed to fetch token: ${tokenResponse.statusText}`);
+    const body: Any = await tokenResponse.json().catch(() => undefined);
+    throw new SaxoAuthError(`Failed to fetch token: ${body?.error_description || tokenResponse.statusText}`, {
+      status: tokenResponse.status,
+      errorCode: body?.error,
+      endpoint: "/token",
+    });
   }
 
   return await tokenResponse.json() as TokenResponse;
 };
 
-const request = async (token: string, endpoint: string, apiEndpoint: string, queryParams: Record<string, string | number> = {}, method: string = "GET"): Promise<Any> => {
-  const url = new URL(`${apiEndpoint}${endpoint}`);
-  Object.entries(queryParams).forEach(([key, value]) => url.searchParams.append(key, String(value)));
-  const response = await fetch(url.href, {
-    method: method,
-    headers: {
-      "Authorization": `Bearer ${token}`,
-      "Content-Type": "application/json",
+const refreshAccessToken = (refreshToken: string, config: AppConfig, params: Record<string, string> = {}): Promise<TokenResponse> => requestToken(config, {
+  grant_type: "refresh_token",
+  refresh_token: refreshToken,
+  redirect_uri: config.redirectUri,
+  ...params,
+});
+
+const toStoredToken = (token: TokenResponse, codeVerifier?: string): StoredToken => ({
+  accessToken: token.access_token,
+  refreshToken: token.refresh_token,
+  expiresAt: token.expires_in ? Date.now() + token.expires_in * 1000 : undefined,
+  refreshTokenExpiresAt: token.refresh_token_expires_in ? Date.now() + token.refresh_token_expires_in * 1000 : undefined,
+  codeVerifier,
+});
+
+const isUsable = (token: StoredToken, now = Date.now()) =>
+  (token.expiresAt === undefined || token.expiresAt > now + TOKEN_REFRESH_MARGIN) ||
+  (!!token.refreshToken && (token.refreshTokenExpiresAt === undefined || token.refreshTokenExpiresAt > now));
+
+const createSession = (initial: StoredToken, config: AppConfig): Session => {
+  let current = initial;
+  let pending: Promise<boolean> | undefined;
+  const listeners = new Set<() => void>();
+
+  const refresh = async (rejected?: string) => {
+    if (rejected !== undefined && rejected !== current.accessToken) return true;
+    return pending ??= (async () => {
+      if (!current.refreshToken) return false;
+      const next = await refreshAccessToken(current.refreshToken, config, current.codeVerifier ? { code_verifier: current.codeVerifier } : {});
+      // Saxo may omit the refresh token when it is unchanged
+      const token = { ...next, refresh_token: next.refresh_token ?? current.refreshToken };
+      current = {
+        ...toStoredToken(token, current.codeVerifier),
+        ...!next.refresh_token && { refreshTokenExpiresAt: current.refreshTokenExpiresAt },
+      };
+      await config.tokenStore?.set(current);
+      await config.onTokenRefreshed?.(token);
+      listeners.forEach(listener => listener());
+      return true;
+    })().finally(() => pending = undefined);
+  };
+
+  return {
+    token: async () => {
+      if (current.refreshToken && current.expiresAt !== undefined && Date.now() >= current.expiresAt - TOKEN_REFRESH_MARGIN) await refresh();
+      return current.accessToken;
     },
-  });
-  if (!response.ok) throw new Error(`API request failed: ${response.statusText}`);
-  return response.json();
+    refresh,
+    onRefresh: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+  };
+};
+
+/** Keeps the session in memory only, useful to share one session between clients */
+export const createMemoryTokenStore = (initial?: StoredToken): TokenStore => {
+  let token = initial;
+  return {
+    get: () => token,
+    set: (next) => { token = next; },
+    clear: () => { token = undefined; },
+  };
 };
 
-const handleError = (response: Any) => {
-  if (response?.ErrorCode) {
-    const code = response.ErrorCode;
-    const message = response.Message;
-    throw new Error(`API request failed with error ${code}: ${message}\n    ${JSON.stringify(response.ModelState)}\n`);
+/** Persists the session as JSON in a file, readable only by the current user */
+export const createFileTokenStore = (path: string): TokenStore => ({
+  get: async () => {
+    const { readFile } = await import("node:fs/promises");
+    try {
+      return JSON.parse(await readFile(path, "utf-8")) as StoredToken;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === "ENOENT") return undefined;
+      throw error;
+    }
+  },
+  set: async (token) => {
+    const { writeFile } = await import("node:fs/promises");
+    await writeFile(path, JSON.stringify(token, null, 2), { mode: 0o600 });
+  },
+  clear: async () => {
+    const { rm } = await import("node:fs/promises");
+    await rm(path, { force: true });
+  },
+});
+
+// Sends every request through the configured fetch and middleware, reporting connection failures as network errors
+const send = async (config: AppConfig, url: string, init?: RequestInit): Promise<Response> => {
+  const middleware = config.middleware ?? [];
+  let request = new Request(url, init);
+  for (const { onRequest } of middleware) {
+    request = await onRequest?.(request) ?? request;
+  }
+
+  let response: Response;
+  try {
+    response = await (config.fetch ?? fetch)(request);
+  } catch (cause) {
+    let error: unknown = cause instanceof SaxoApiError ? cause : new SaxoNetworkError(`Network request failed: ${cause instanceof Error ? cause.message : cause}`, {
+      status: 0,
+      endpoint: new URL(request.url).pathname,
+      cause,
+    });
+    let recovered: Response | undefined;
+    for (const { onError } of [...middleware].reverse()) {
+      if (recovered) break;
+      try {
+        recovered = await onError?.(error, request) ?? undefined;
+      } catch (replacement) {
+        error = replacement;
+      }
+    }
+    if (!recovered) throw error;
+    response = recovered;
   }
-  if (response?.ErrorInfo) {
-    const code = response.ErrorInfo.ErrorCode;
-    const message = response.ErrorInfo.Message;
-    throw new Error(`API request failed with error ${code}: ${message}`);
+
+  for (const { onResponse } of [...middleware].reverse()) {
+    response = await onResponse?.(response, request) ?? response;
   }
   return response;
 };
 
-export const createClient = async (auth: Credentials, config: AppConfig) => {
-  // Provide default endpoints for simulation environment
-  const clientConfig: Required<AppConfig> = {
-    apiEndpoint: "https://gateway.saxobank.com/sim/openapi",
-    authEndpoint: "https://sim.logonvalidation.net",
-    ...config,
-  };
+const authorizedFetch = async (session: Session, config: AppConfig, url: string, init: RequestInit = {}): Promise<Response> => {
+  let token = "";
+  const authorizedSend = async () => send(config, url, {
+    ...init,
+    headers: {
+      ...init.headers,
+      "Authorization": `Bearer ${token = await session.token()}`,
+    },
+  });
+  const response = await authorizedSend();
+  // The token may have been revoked or expired early, refresh once and retry
+  if (response.status === 401 && await session.refresh(token)) return authorizedSend();
+  return response;
+};
 
-  const token = auth.type === "token" ? { access_token: auth.token } : await authenticate(auth.username, auth.password, clientConfig);
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
 
-  const client_data = await request(token.access_token, "/port/v1/clients/me", clientConfig.apiEndpoint).then(handleError);
+// Full jitter keeps concurrent clients from retrying in lockstep
+const backoff = (attempt: number, retry: RetryOptions) =>
+  Math.random() * Math.min(retry.maxDelay ?? 10_000, (retry.minDelay ?? 250) * 2 ** attempt);
 
-  const client_id = client_data.ClientId;
-  const client_key = client_data.ClientKey;
+/** Saxo returns at most this many candles per chart request */
+const CHART_PAGE_SIZE = 1200;
 
-  const getPositions = async (account_key?: string) => {
-    try {
-      const result = await request(token.access_token, account_key ? `/port/v1/positions?ClientKey=${client_key}&AccountKey=${account_key}` : "/port/v1/positions/me", clientConfig.apiEndpoint).then(handleError);
-      return result?.Data?.map(({ PositionId, PositionBase, PositionView }: Any) => (lock({
-    id: PositionId,
-    uic: PositionBase.Uic,
-    client_id,
-    account_id: PositionBase.AccountId,
-    order_id: PositionBase.SourceOrderId,
-    status: PositionBase.Status,
-    quantity: PositionBase.Amount,
-    price: PositionBase.OpenPrice,
-    value: PositionView.CurrentPrice,
-    currency: PositionView.ExposureCurrency,
-      [INTERNAL]: { PositionId, PositionBase, PositionView },
-    }))) || [];
-    } catch (error) {
-      return [];
-    }
-  };
+/** Options traded on an exchange, where each contract of an option root has its own Uic */
+const LISTED_OPTIONS: AssetType[] = ["StockOption", "StockIndexOption"];
+
+/** Returns the delay before the next attempt, or undefined when the error should not be retried */
+const retryDelay = (error: unknown, attempt: number, retry: RetryOptions) => {
+  if (attempt >= (retry.retries ?? 2)) return undefined;
+  const retryable = error instanceof SaxoNetworkError || error instanceof SaxoRateLimitError ||
+    (error instanceof SaxoApiError && error.status >= 500);
+  if (!retryable) return undefined;
+  const retryAfter = error instanceof SaxoRateLimitError && error.retryAfter !== undefined ? error.retryAfter * 1000 : 0;
+  return Math.max(backoff(attempt, retry), retryAfter);
+};
+
+interface RequestInitOptions extends RequestOptions {
+  /** Sent as x-request-id, which makes a non-GET request safe to retry */
+  requestId?: string;
+  /** Marks a non-GET request without side effects as safe to retry */
+  idempotent?: boolean;
+}
+
+const request = async ({ session, config, limiter }: Transport, endpoint: string, queryParams: Record<string, string | number> = {}, method: string = "GET", body?: unknown, options: RequestInitOptions = {}): Promise<Any> => {
+  const url = new URL(`${config.apiEndpoint}${endpoint}`);
+  Object.entries(queryParams).forEach(([key, value]) => url.searchParams.append(key, String(value)));
+  const retry = options.retry ?? config.retry;
+  // Only requests without side effects, or deduplicated by Saxo through their request id, are retried
+  const idempotent = method === "GET" || options.idempotent || options.requestId !== undefined;
 
-  const getOrders = async (account_key?: string) => {
+  for (let attempt = 0; ; attempt++) {
     try {
-      const result = await request(token.access_token, account_key ? `/port/v1/orders?ClientKey=${client_key}&AccountKey=${account_key}` : "/port/v1/orders/me", clientConfig.apiEndpoint).then(handleError);
-      return result?.Data?.map((order: Any) => (lock({
-    id: order.OrderId,
-    time: new Date(order.OrderTime),
-    uic: order.Uic,
-    type: order.BuySell.toLowerCase(),
-    order_type: order.OpenOrderType === "Market" ? "market"
-      : order.OpenOrderType === "Limit" ? "limit"
-        : order.OpenOrderType === "Stop" ? "stop"
-          : order.OpenOrderType === "StopLimit" ? "stop_limit"
-            : order.OpenOrderType,
-    status: order.Status === "Filled" ? "filled"
-      : order.Status === "Working" ? "working"
-        : order.Status === "Parked" ? "parked"
-          : order.Status,
-    price: order.Price,
-    quantity: order.Amount,
-    client_id: order.ClientId,
-    account_id: order.AccountId,
-    exchange_id: order.Exchange?.ExchangeId,
-    assetType: order.AssetType,
-      [INTERNAL]: order,
-    }))) || [];
+      const response = await limiter.schedule(serviceGroup(endpoint, method), () => authorizedFetch(session, config, url.href, {
+        method: method,
+        headers: {
+          "Content-Type": "application/json",
+          ...options.requestId && { "x-request-id": options.requestId },
+        },
+        ...body !== undefined && { body: JSON.stringify(body) },
+      }));
+      const text = await response.text();
+      let data: Any = {};
+      try {
+        if (text) data = JSON.parse(text);
+      } catch {
+        data = undefined;
+      }
+      return handleError(data, response, endpoint.split("?")[0]);
     } catch (error) {
-      return [];
+      // The response to an earlier attempt was lost, Saxo may have accepted it before rejecting the retry
+      if (attempt > 0 && options.requestId && error instanceof SaxoApiError && error.errorCode === "DuplicateOperation") {
+        throw new SaxoUnconfirmedOrderError("Order submission may have been placed by an earlier attempt, check the orders and positions before resubmitting", {
+          status: error.status,
+          errorCode: error.errorCode,
+          requestId: options.requestId,
+          endpoint: error.endpoint,
+          cause: error,
+        });
+      }
+      const delay = retry && idempotent ? retryDelay(error, attempt, retry) : undefined;
+      if (delay === undefined) throw error;
+      await sleep(delay);
     }
-  };
+  }
+};
 
-  const getBalance = async (account_key: string) => await request(token.access_token, `/port/v1/balances?ClientKey=${client_key}&AccountKey=${account_key}`, clientConfig.apiEndpoint).catch(handleError).then(handleError).then((response: Any) => (lock({
-    cashBalance: response.CashBalance || 0,
-    cashAvailable: response.CashAvailableForTrading || 0,
+export interface RateLimitBucket {
+  /** Requests allowed per window */
+  limit: number;
+  /** Requests left in the current window */
+  remaining: number;
+  /** When the current window ends */
+  reset: Date;
+}
+
+export interface RateLimitMetrics {
+  /** Requests waiting for a rate limit window to reset */
+  queued: number;
+  /** Requests sent and awaiting a response */
+  inFlight: number;
+  /** Last known state of each bucket reported by Saxo, e.g. "session" or "sessionorders" */
+  buckets: Record<string, RateLimitBucket>;
+}
+
+interface RateLimiter {
+  /** Sends the request once none of the buckets of its service group are exhausted */
+  schedule(group: string, send: () => Promise<Response>): Promise<Response>;
+  /** Whether a request of the service group would be sent at once rather than queued */
+  ready(group: string): boolean;
+  metrics(): RateLimitMetrics;
+}
+
+/** Throttling applies per service group, with order placement limited separately */
+const serviceGroup = (endpoint: string, method: string) =>
+  method !== "GET" && /^\/trade\/v\d+\/orders(?!(\/multileg)?\/precheck)/.test(endpoint) ? "orders" : endpoint.split("/")[1] ?? "";
+
+const RATE_LIMIT_HEADER = /^x-ratelimit-(.+)-(limit|remaining|reset)$/;
+
+const createRateLimiter = (): RateLimiter => {
+  const buckets = new Map<string, RateLimitBucket>();
+  // Buckets reported on the responses of each service group
+  const groups = new Map<string, Set<string>>();
+  const queue: { group: string, start: () => void }[] = [];
+  let inFlight = 0;
+  let timer: ReturnType<typeof setTimeout> | undefined;
+
+  const bucketsOf = (group: string) => [...groups.get(group) ?? []].map(name => buckets.get(name)!);
+
+  const blockedUntil = (group: string, now: number) => Math.max(0, ...bucketsOf(group)
+    .filter(bucket => bucket.remaining <= 0 && bucket.reset.getTime() > now)
+    .map(bucket => bucket.reset.getTime()));
+
+  const drain = () => {
+    clearTimeout(timer);
+    timer = undefined;
+    const now = Date.now();
+    let wait = Infinity;
+    for (let i = 0; i < queue.length; i++) {
+      const until = blockedUntil(queue[i].group, now);
+      if (until > now) {
+        wait = Math.min(wait, until - now);
+        continue;
+      }
+      const [next] = queue.splice(i--, 1);
+      // Count the request against its buckets until the response reports the real numbers
+      bucketsOf(next.group).forEach(bucket => bucket.remaining--);
+      next.start();
+    }
+    if (wait !== Infinity) timer = setTimeout(drain, wait);
+  };
+
+  const update = (group: string, response: Response) => {
+    const reported = new Map<string, Partial<Record<"limit" | "remaining" | "reset", number>>>();
+    response.headers.forEach((value, key) => {
+      const match = RATE_LIMIT_HEADER.exec(key.toLowerCase());
+      if (!match || Number.isNaN(Number(value))) return;
+      reported.set(match[1], { ...reported.get(match[1]), [match[2]]: Number(value) });
+    });
+
+    const names = groups.get(group) ?? new Set<string>();
+    groups.set(group, names);
+    reported.forEach((values, name) => {
+      const previous = buckets.get(name);
+      names.add(name);
+      buckets.set(name, {
+        limit: values.limit ?? previous?.limit ?? 0,
+        remaining: values.remaining ?? previous?.remaining ?? 0,
+        reset: values.reset !== undefined ? new Date(Date.now() + values.reset * 1000) : previous?.reset ?? new Date(),
+      });
+    });
+
+    // Throttled without usable headers, hold back the whole service group
+    if (response.status === 429 && !reported.size) {
+      names.add(group);
+      buckets.set(group, {
+        limit: buckets.get(group)?.limit ?? 0,
+        remaining: 0,
+        reset: new Date(Date.now() + (parseRetryAfter(response.headers) ?? 1) * 1000),
+      });
+    }
+  };
+
+  return {
+    schedule: (group, send) => new Promise<Response>((resolve, reject) => {
+      queue.push({
+        group,
+        start: () => {
+          inFlight++;
+          send().then((response) => {
+            update(group, response);
+            resolve(response);
+          }, reject).finally(() => {
+            inFlight--;
+            drain();
+          });
+        },
+      });
+      drain();
+    }),
+    ready: (group) => blockedUntil(group, Date.now()) === 0,
+    metrics: () => ({
+      queued: queue.length,
+      inFlight,
+      buckets: Object.fromEntries([...buckets].map(([name, bucket]) => [name, { ...bucket }])),
+    }),
+  };
+};
+
+const parseRetryAfter = (headers: Headers) => {
+  const value = headers.get("retry-after");
+  if (!value) return undefined;
+  const seconds = Number(value);
+  return Number.isNaN(seconds) ? Math.max(0, (Date.parse(value) - Date.now()) / 1000) : seconds;
+};
+
+const handleError = (data: Any, response: Response, endpoint: string) => {
+  const info = data?.ErrorInfo ?? data;
+  if (response.ok && !info?.ErrorCode) return data;
+
+  const errorCode: string | undefined = info?.ErrorCode;
+  const details: SaxoErrorDetails = {
+    status: response.status,
+    errorCode,
+    modelState: info?.ModelState ?? data?.ModelState,
+    requestId: response.headers.get("x-correlation") ?? response.headers.get("x-request-id") ?? undefined,
+    endpoint,
+  };
+  const message = errorCode
+    ? `API request failed with error ${errorCode}: ${info.Message}`
+    : `API request failed: ${response.statusText || response.status}`;
+
+  if (response.status === 401 || response.status === 403) throw new SaxoAuthError(message, details);
+  if (response.status === 429) throw new SaxoRateLimitError(message, { ...details, retryAfter: parseRetryAfter(response.headers) });
+  if (details.modelState || errorCode === "InvalidModelState") throw new SaxoValidationError(message, details);
+  throw new SaxoApiError(message, details);
+};
+
+interface Emitter<T> {
+  emit(value: T): void;
+  on(listener: (value: T) => void): () => void;
+  iterate(): AsyncIterableIterator<T>;
+  /** Finishes every iteration once its buffered values have been read */
+  end(): void;
+}
+
+const createEmitter = <T>(): Emitter<T> => {
+  const listeners = new Set<(value: T) => void>();
+  const readers = new Set<{ queue: T[]; wake: () => void }>();
+  let ended = false;
+
+  return {
+    emit: (value) => {
+      for (const reader of readers) {
+        reader.queue.push(value);
+        reader.wake();
+      }
+      for (const listener of listeners) listener(value);
+    },
+    on: (listener) => {
+      listeners.add(listener);
+      return () => listeners.delete(listener);
+    },
+    // Every iteration buffers the values emitted since it started
+    iterate: () => {
+      const reader = { queue: [] as T[], wake: () => {} };
+      readers.add(reader);
+      const done = async (): Promise<IteratorResult<T>> => {
+        readers.delete(reader);
+        return { value: undefined, done: true };
+      };
+      return {
+        next: async () => {
+          while (!reader.queue.length && !ended) await new Promise<void>(resolve => reader.wake = resolve);
+          return reader.queue.length ? { value: reader.queue.shift()!, done: false } : done();
+        },
+        return: done,
+        [Symbol.asyncIterator]() {
+          return this;
+        },
+      };
+    },
+    end: () => {
+      ended = true;
+      for (const reader of readers) reader.wake();
+      listeners.clear();
+    },
+  };
+};
+
+/** Applies a streaming delta, nested objects are merged and everything else is replaced */
+const mergeDelta = (target: Any, delta: Any): Any => {
+  if (!target || typeof target !== "object" || Array.isArray(target) || !delta || typeof delta !== "object" || Array.isArray(delta)) return delta;
+  const merged = { ...target };
+  for (const [key, value] of Object.entries(delta)) merged[key] = mergeDelta(target[key], value);
+  return merged;
+};
+
+interface StreamingMessage {
+  messageId: bigint;
+  referenceId: string;
+  payload: Any;
+}
+
+/**
+ * Splits a streaming frame into its messages, each laid out as
+ * message id (uint64) | reserved (2 bytes) | reference id size (uint8) | reference id (ASCII) | payload format (uint8) | payload size (int32) | payload
+ */
+const decodeStreamingMessages = (data: ArrayBuffer | ArrayBufferView): StreamingMessage[] => {
+  const bytes = data instanceof ArrayBuffer ? new Uint8Array(data) : new Uint8Array(data.buffer, data.byteOffset, data.byteLength);
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  const decoder = new TextDecoder();
+  const messages: StreamingMessage[] = [];
+  for (let offset = 0; offset < bytes.byteLength;) {
+    const messageId = view.getBigUint64(offset, true);
+    const referenceIdSize = view.getUint8(offset + 10);
+    const referenceId = decoder.decode(bytes.subarray(offset + 11, offset + 11 + referenceIdSize));
+    offset += 11 + referenceIdSize;
+    const format = view.getUint8(offset);
+    const size = view.getInt32(offset + 1, true);
+    const payload = bytes.subarray(offset + 5, offset + 5 + size);
+    offset += 5 + size;
+    // Payloads are JSON unless a protobuf format was requested
+    messages.push({ messageId, referenceId, payload: format === 0 ? JSON.parse(decoder.decode(payload)) : payload });
+  }
+  return messages;
+};
+
+interface StreamingHandler {
+  /** Receives the subscription snapshot, before any of its deltas */
+  onSnapshot(snapshot: Any): void;
+  onDelta(payload: Any): void;
+}
+
+interface StreamingSubscription {
+  readonly referenceId: string;
+  unsubscribe(): Promise<void>;
+}
+
+/** The client's streaming connection, shared by all of its subscriptions */
+interface Streaming {
+  contextId: string;
+  subscribe(endpoint: string, args: Any, handler: StreamingHandler): Promise<StreamingSubscription>;
+}
+
+interface StreamingRecord {
+  endpoint: string;
+  args: Any;
+  handler: StreamingHandler;
+  referenceId: string;
+  /** Deltas received before the snapshot, applied after it */
+  buffered?: Any[];
+}
+
+/**
+ * Keeps the streaming connection alive while there are subscriptions: control messages reset subscriptions,
+ * a silent or dropped connection is re-opened with backoff under the same ContextId and every subscription is
+ * re-created with a fresh snapshot, and refreshed tokens re-authorize the open connection.
+ */
+const createStreaming = (transport: Transport, contextId: string): Streaming => {
+  const { config, session } = transport;
+  const heartbeatTimeout = config.streaming?.heartbeatTimeout ?? 60_000;
+  const subscriptions = new Set<StreamingRecord>();
+  const references = new Map<string, StreamingRecord>();
+  let socket: Promise<WebSocket> | undefined;
+  let reconnecting: Promise<void> | undefined;
+  let watchdog: ReturnType<typeof setTimeout> | undefined;
+  let counter = 0;
+
+  const connect = () => socket ??= open();
+
+  const open = () => {
+    const connection: Promise<WebSocket> = (async () => {
+      const WebSocketImpl = config.WebSocket ?? globalThis.WebSocket;
+      if (!WebSocketImpl) throw new Error("Streaming requires a WebSocket implementation, pass one as the WebSocket option");
+      const token = await session.token();
+      const url = `${config.streamingEndpoint}/streamingws/connect?contextId=${contextId}&authorization=${encodeURIComponent(`BEARER ${token}`)}`;
+      const ws = new WebSocketImpl(url);
+      ws.binaryType = "arraybuffer";
+      ws.onmessage = ({ data }) => {
+        if (socket !== connection) return;
+        watch();
+        decodeStreamingMessages(data).forEach(dispatch);
+      };
+      ws.onclose = () => {
+        // Closes the client asked for have already released the connection
+        if (socket !== connection) return;
+        drop();
+      };
+      await new Promise<void>((resolve, reject) => {
+        ws.onopen = () => resolve();
+        ws.onerror = () => reject(new SaxoNetworkError("Streaming connection failed", { status: 0, endpoint: "/streamingws/connect" }));
+      });
+      watch();
+      return ws;
+    })().catch(error => {
+      if (socket === connection) socket = undefined;
+      throw error;
+    });
+    return connection;
+  };
+
+  // Saxo sends heartbeats on quiet subscriptions, so a silent connection is a dead one
+  const watch = () => {
+    clearTimeout(watchdog);
+    watchdog = setTimeout(drop, heartbeatTimeout);
+  };
+
+  const close = async () => {
+    clearTimeout(watchdog);
+    const closing = socket;
+    socket = undefined;
+    (await closing?.catch(() => undefined))?.close();
+  };
+
+  /** Abandons the current connection and re-creates every subscription on a new one */
+  const drop = () => {
+    void close();
+    void reconnect();
+  };
+
+  const reconnect = () => reconnecting ??= (async () => {
+    const backoffOptions = { minDelay: 1000, maxDelay: 30_000, ...config.streaming?.reconnect };
+    for (let attempt = 0; subscriptions.size; attempt++) {
+      try {
+        const connection = connect();
+        await connection;
+        await Promise.all([...subscriptions].map(resubscribe));
+        // The connection can drop again while the subscriptions are re-created
+        if (socket === connection) return;
+      } catch {
+        await sleep(backoff(attempt, backoffOptions));
+      }
+    }
+  })().finally(() => {
+    reconnecting = undefined;
+  });
+
+  const dispatch = ({ referenceId, payload }: StreamingMessage) => {
+    const messages = Array.isArray(payload) ? payload : [payload];
+    switch (referenceId) {
+      case "_heartbeat":
+        for (const { Heartbeats } of messages) {
+          for (const { OriginatingReferenceId, Reason } of Heartbeats ?? []) {
+            const record = references.get(OriginatingReferenceId);
+            if (record && Reason === "SubscriptionPermanentlyDisabled") void resubscribe(record).catch(drop);
+          }
+        }
+        return;
+      case "_resetsubscriptions":
+        for (const { TargetReferenceIds } of messages) {
+          const targets: StreamingRecord[] = TargetReferenceIds?.length
+            ? TargetReferenceIds.map((id: string) => references.get(id)).filter(Boolean)
+            : [...subscriptions];
+          for (const record of targets) void resubscribe(record).catch(drop);
+        }
+        return;
+      case "_disconnect":
+        drop();
+        return;
+      default: {
+        const record = references.get(referenceId);
+        if (record?.buffered) record.buffered.push(payload);
+        else record?.handler.onDelta(payload);
+      }
+    }
+  };
+
+  const create = async (record: StreamingRecord) => {
+    const referenceId = `${record.endpoint.split("/")[3]}-${++counter}`;
+    record.buffered = [];
+    references.set(referenceId, record);
+    try {
+      const response = await request(transport, record.endpoint, {}, "POST", { ContextId: contextId, ReferenceId: referenceId, Arguments: record.args }, { idempotent: true });
+      record.referenceId = referenceId;
+      record.handler.onSnapshot(response.Snapshot);
+      const buffered = record.buffered;
+      record.buffered = undefined;
+      buffered.forEach(record.handler.onDelta);
+    } catch (error) {
+      references.delete(referenceId);
+      throw error;
+    }
+  };
+
+  const resubscribe = async (record: StreamingRecord) => {
+    const previous = record.referenceId;
+    references.delete(previous);
+    // The server may have dropped the subscription already
+    await request(transport, `${record.endpoint}/${contextId}/${previous}`, {}, "DELETE").catch(() => undefined);
+    if (subscriptions.has(record)) await create(record);
+  };
+
+  // A refreshed token has to be handed to the open connection before the old one expires
+  session.onRefresh(() => {
+    if (!socket) return;
+    const url = `${config.streamingEndpoint.replace(/^ws/, "http")}/streamingws/authorize?contextid=${contextId}`;
+    void authorizedFetch(session, config, url, { method: "PUT" }).catch(() => undefined);
+  });
+
+  const subscribe = async (endpoint: string, args: Any, handler: StreamingHandler): Promise<StreamingSubscription> => {
+    const record: StreamingRecord = { endpoint, args, handler, referenceId: "" };
+    await connect();
+    await create(record);
+    subscriptions.add(record);
+
+    return {
+      get referenceId() {
+        return record.referenceId;
+      },
+      unsubscribe: async () => {
+        if (!subscriptions.delete(record)) return;
+        references.delete(record.referenceId);
+        await request(transport, `${endpoint}/${contextId}/${record.referenceId}`, {}, "DELETE");
+        // The connection is only kept open while there are subscriptions
+        if (!subscriptions.size) await close();
+      },
+    };
+  };
+
+  return { contextId, subscribe };
+};
+
+export const createClient = async (auth: Credentials, config: AppConfig) => {
+  // Provide default endpoints for simulation environment
+  const clientConfig: ClientConfig = {
+    apiEndpoint: "https://gateway.saxobank.com/sim/openapi",
+    authEndpoint: "https://sim.logonvalidation.net",
+    streamingEndpoint: "wss://streaming.saxobank.com/sim/openapi",
+    errorMode: "throw",
+    retry: {},
+    ...config,
+  };
+
+  const login = async (): Promise<StoredToken> => {
+    if (auth.type === "token") {
+      return {
+        accessToken: auth.token,
+        refreshToken: auth.refreshToken,
+        expiresAt: auth.expiresIn ? Date.now() + auth.expiresIn * 1000 : undefined,
+      };
+    }
+    if (auth.type === "pkce") {
+      const { token, verifier } = await authenticatePkce(auth, clientConfig);
+      return toStoredToken(token, verifier);
+    }
+    return toStoredToken(await authenticate(auth.username, auth.password, clientConfig));
+  };
+
+  // Shared by every request of this client, including the ones made before a fresh login
+  const limiter = createRateLimiter();
+
+  const connect = async (token: StoredToken) => {
+    const transport: Transport = { session: createSession(token, clientConfig), config: clientConfig, limiter };
+    const client_data = await request(transport, "/port/v1/clients/me");
+    return { transport, client_data };
+  };
+
+  // Resume a persisted session when possible, and only log in again if it has been rejected
+  const stored = await clientConfig.tokenStore?.get();
+  const resumed = stored && isUsable(stored) ? await connect(stored).catch(async (error) => {
+    if (!(error instanceof SaxoAuthError)) throw error;
+    await clientConfig.tokenStore?.clear();
+    return undefined;
+  }) : undefined;
+
+  const { transport, client_data } = resumed ?? await (async () => {
+    const token = await login();
+    await clientConfig.tokenStore?.set(token);
+    return connect(token);
+  })();
+
+  const client_id = client_data.ClientId;
+  const client_key = client_data.ClientKey;
+
+  // Read methods propagate errors unless the client opted into empty results
+  const read = async <T>(fetcher: () => Promise<T>, empty: T): Promise<T> => {
+    try {
+      return await fetcher();
+    } catch (error) {
+      if (clientConfig.errorMode === "empty") return empty;
+      throw error;
+    }
+  };
+
+  const toPosition = ({ PositionId, PositionBase, PositionView }: Any): Position => lock({
+    id: PositionId,
+    uic: PositionBase.Uic,
+    client_id,
+    account_id: PositionBase.AccountId,
+    order_id: PositionBase.SourceOrderId,
+    status: PositionBase.Status,
+    quantity: PositionBase.Amount,
+    price: PositionBase.OpenPrice,
+    value: PositionView.CurrentPrice,
+    currency: PositionView.ExposureCurrency,
+    [INTERNAL]: { PositionId, PositionBase, PositionView },
+  });
+
+  const toOrderDuration = (duration: OrderDuration = { durationType: "GoodTillCancel" }) => ({
+    DurationType: duration.durationType,
+    ...duration.expirationDateTime && { ExpirationDateTime: duration.expirationDateTime },
+  });
+
+  const toOrderType = (type: string): Order["order_type"] => type === "Market" ? "market"
+    : type === "Limit" ? "limit"
+      : type === "Stop" ? "stop"
+        : type === "StopLimit" ? "stop_limit"
+          : type === "TrailingStopIfTraded" ? "trailing_stop"
+            : type as Order["order_type"];
+
+  const fromOrderType = (type: Order["order_type"]) => type === "market" ? "Market"
+    : type === "limit" ? "Limit"
+      : type === "stop" ? "Stop"
+        : type === "stop_limit" ? "StopLimit"
+          : "TrailingStopIfTraded";
+
+  const toOrderStatus = (status: string): Order["status"] => status === "Filled" ? "filled"
+    : status === "Working" ? "working"
+      : status === "Parked" ? "parked"
+        : status as Order["status"];
+
+  const toOrder = (order: Any): Order => lock({
+    id: order.OrderId,
+    time: new Date(order.OrderTime),
+    uic: order.Uic,
+    type: order.BuySell.toLowerCase(),
+    order_type: toOrderType(order.OpenOrderType),
+    status: toOrderStatus(order.Status),
+    price: order.Price,
+    quantity: order.Amount,
+    client_id: order.ClientId,
+    account_id: order.AccountId,
+    exchange_id: order.Exchange?.ExchangeId,
+    assetType: order.AssetType,
+    externalReference: order.ExternalReference,
+    duration: order.Duration && {
+      durationType: order.Duration.DurationType,
+      ...order.Duration.ExpirationDateTime && { expirationDateTime: order.Duration.ExpirationDateTime },
+    },
+    stop_limit: order.StopLimitPrice,
+    distance: order.TrailingStopDistanceToMarket,
+    step: order.TrailingStopStep,
+    relation: order.OrderRelation,
+    related: order.RelatedOpenOrders?.map((related: Any): RelatedOrder => lock({
+      id: related.OrderId,
+      order_type: toOrderType(related.OpenOrderType),
+      status: toOrderStatus(related.Status),
+      price: related.OrderPrice,
+      quantity: related.Amount,
+      [INTERNAL]: related,
+    })),
+    multiLeg: order.MultiLegOrderDetails && {
+      id: order.MultiLegOrderDetails.MultiLegOrderId,
+      legCount: order.MultiLegOrderDetails.LegCount,
+      type: order.MultiLegOrderDetails.BuySell.toLowerCase(),
+    },
+    [INTERNAL]: order,
+  });
+
+  const getPositions = async (account_key?: string) => read(async () => {
+    const result = await request(transport, account_key ? `/port/v1/positions?ClientKey=${client_key}&AccountKey=${account_key}` : "/port/v1/positions/me");
+    return result?.Data?.map(toPosition) || [];
+  }, [] as Position[]);
+
+  const getOrders = async (account_key?: string) => read(async () => {
+    const result = await request(transport, account_key ? `/port/v1/orders?ClientKey=${client_key}&AccountKey=${account_key}` : "/port/v1/orders/me");
+    return result?.Data?.map(toOrder) || [];
+  }, [] as Order[]);
+
+  const toBalance = (response: Any): Balance => lock({
+    cashBalance: response.CashBalance || 0,
+    cashAvailable: response.CashAvailableForTrading || 0,
     totalValue: response.TotalValue || 0,
     marginUsed: response.MarginUsedByCurrentPositions || 0,
     marginAvailable: response.MarginAvailableForTrading || 0,
     unrealizedPnL: response.UnrealizedPositionsValue || 0,
     currency: response.Currency,
     [INTERNAL]: response
-  }))) as Balance;
+  });
 
-  const createOrder = async (
-    account_key: string, 
-    type: Order["type"], 
-    uic: number, 
-    quantity: number, 
-    order_type: Order["order_type"] = "market", 
-    price?: number, 
-    stop_limit?: number,
-    options: OrderOptions = {}
+  const getBalance = async (account_key: string, currency: string) => read(
+    async () => toBalance(await request(transport, `/port/v1/balances?ClientKey=${client_key}&AccountKey=${account_key}`)),
+    toBalance({ Currency: currency })
+  );
+
+  const invalidOrder = (message: string, endpoint = "/trade/v2/orders") => new SaxoValidationError(message, { status: 0, endpoint });
+
+  // The types rule these out, the checks cover callers without them
+  const checkOrderPrices = (
+    orderTypes: Order["order_type"][],
+    { order_type, price, stop_limit }: { order_type: string; price?: number; stop_limit?: number },
+    endpoint?: string,
   ) => {
-    if (order_type === "stop" && !stop_limit) throw new Error("Stop orders require a stop limit price");
-    if (order_type === "market" && (price || stop_limit)) throw new Error("Market orders cannot have a price or stop limit");
-    if (["limit", "stop_limit"].includes(order_type) && !price) throw new Error("Limit orders require a price");
-    if (["market", "stop", "limit", "stop_limit"].includes(order_type) === false) throw new Error("Invalid order type");
-    
+    if (!(orderTypes as string[]).includes(order_type)) throw invalidOrder(`Order type must be one of ${orderTypes.join(", ")}`, endpoint);
+    if (order_type === "market" && (price !== undefined || stop_limit !== undefined)) throw invalidOrder("Market orders cannot have a price or stop limit", endpoint);
+    if (order_type !== "market" && typeof price !== "number") throw invalidOrder(`${order_type === "limit" ? "Limit" : "Stop"} orders require a price`, endpoint);
+    if (order_type === "stop_limit" && typeof stop_limit !== "number") throw invalidOrder("Stop limit orders require a stop limit price", endpoint);
+  };
+
+  // Orders have been placed by then, so a lookup that fails, or would wait for an exhausted
+  // rate limit window as portfolio requests are throttled apart from placement, must not raise
+  const afterPlacement = async <T>(lookup: () => Promise<T>, fallback: T): Promise<T> =>
+    transport.limiter.ready("port") ? lookup().catch(() => fallback) : fallback;
+
+  const sendOrder = async (account_key: string, spec: OrderSpec) => {
+    const { type, uic: instrument, quantity, order_type } = spec;
+    const price = "price" in spec ? spec.price : undefined;
+    const stop_limit = "stop_limit" in spec ? spec.stop_limit : undefined;
+    checkOrderPrices(["market", "limit", "stop", "stop_limit", "trailing_stop"], { order_type, price, stop_limit });
+    if (order_type !== "stop_limit" && stop_limit !== undefined) throw invalidOrder("Only stop limit orders take a stop limit price");
+    if (spec.order_type === "trailing_stop" && !(spec.distance && spec.step)) throw invalidOrder("Trailing stop orders require a distance and a step");
+
+    for (const [name, exit] of [["Take profit", spec.takeProfit], ["Stop loss", spec.stopLoss]] as const) {
+      if (exit && exit.price === undefined && exit.distance === undefined) throw invalidOrder(`${name} requires a price or a distance`);
+    }
+
+    const resolved = typeof instrument === "string" ? await resolveSymbol(instrument, spec.assetType) : undefined;
+    const assetType = resolved?.assetType ?? spec.assetType ?? "FxSpot";
+
+    // FX options are traded by the Uic of the currency pair, listed options by the Uic of each contract
+    const { putCall, strike, expiryDate, toOpenClose } = spec;
+    const fxOption = /^Fx.*Option$/.test(assetType);
+    const listedOption = LISTED_OPTIONS.includes(assetType);
+    const option = putCall !== undefined || strike !== undefined || expiryDate !== undefined;
+    if (option && !fxOption && !listedOption) throw invalidOrder(`${assetType} orders cannot have a put/call, strike or expiry date`);
+    if ((option || fxOption) && (!putCall || strike === undefined || !expiryDate)) throw invalidOrder("Option orders require a put/call, strike and expiry date");
+    const root = resolved?.uic ?? instrument as number;
+    const uic = listedOption && option ? (await findOptionContract(root, putCall!, strike!, expiryDate!)).uic : root;
+    const optionFields = fxOption ? { PutCall: putCall, Strike: strike, ExpiryDate: expiryDate } : {};
+
+    // Exit distances are measured from the entry price, market orders use the current quote. It is
+    // read regardless of the error mode, as an empty quote cannot price the exits
+    const direction = type === "buy" ? 1 : -1;
+    let entryPrice: number | undefined;
+    const reference = async () => entryPrice ??= price ?? (await fetchQuote(uic, assetType))[type === "buy" ? "ask" : "bid"];
+    // Drops floating point noise such as 1.1052000000000002
+    const exitPrice = async (exit: ExitOrder, side: 1 | -1) =>
+      exit.price ?? Number((await reference() + side * direction * exit.distance!).toFixed(10));
+    const exitOrder = (exit: ExitOrder, orderType: string, orderPrice: number) => ({
+      AccountKey: account_key,
+      Uic: uic,
+      AssetType: assetType,
+      BuySell: type === "buy" ? "Sell" : "Buy",
+      OrderType: orderType,
+      Amount: quantity,
+      OrderPrice: orderPrice,
+      OrderRelation: "IfDoneSlave",
+      ManualOrder: spec.manualOrder ?? true,
+      OrderDuration: toOrderDuration(exit.duration),
+      ...optionFields,
+      ...toOpenClose && { ToOpenClose: "ToClose" },
+    });
+
+    const related: Any[] = [];
+    if (spec.takeProfit) related.push(exitOrder(spec.takeProfit, "Limit", await exitPrice(spec.takeProfit, 1)));
+    if (spec.stopLoss) {
+      const { trailingStep, distance } = spec.stopLoss;
+      const stopPrice = await exitPrice(spec.stopLoss, -1);
+      related.push(trailingStep ? {
+        ...exitOrder(spec.stopLoss, "TrailingStopIfTraded", stopPrice),
+        TrailingStopDistanceToMarket: distance ?? Number(Math.abs(await reference() - stopPrice).toFixed(10)),
+        TrailingStopStep: trailingStep,
+      } : exitOrder(spec.stopLoss, "Stop", stopPrice));
+    }
+
     const orderRequest = {
       AccountKey: account_key,
       Uic: uic,
-      AssetType: options.assetType || "FxSpot",
+      AssetType: assetType,
       BuySell: type === "buy" ? "Buy" : "Sell",
-      OrderType: order_type === "market" ? "Market"
-        : order_type === "limit" ? "Limit"
-          : order_type === "stop" ? "Stop"
-            : order_type === "stop_limit" ? "StopLimit"
-              : order_type,
+      OrderType: fromOrderType(order_type),
       Amount: quantity,
-      ...price && { OrderPrice: price },
-      ...stop_limit && { StopLimitPrice: stop_limit },
-      OrderRelation: "StandAlone",
-      ManualOrder: options.manualOrder ?? true,
-      ...options.externalReference && { ExternalReference: options.externalReference },
-      ...options.isForceOpen && { IsForceOpen: options.isForceOpen },
-      ...options.trailingStopDistanceToMarket && { TrailingStopDistanceToMarket: options.trailingStopDistanceToMarket },
-      ...options.trailingStopStep && { TrailingStopStep: options.trailingStopStep },
+      ...price !== undefined && { OrderPrice: price },
+      ...stop_limit !== undefined && { StopLimitPrice: stop_limit },
+      ...spec.order_type === "trailing_stop" && {
+        TrailingStopDistanceToMarket: spec.distance,
+        TrailingStopStep: spec.step,
+      },
+      ...optionFields,
+      ...toOpenClose && { ToOpenClose: toOpenClose },
+      OrderRelation: related.length ? "IfDoneMaster" : "StandAlone",
+      ...related.length && { Orders: related },
+      ManualOrder: spec.manualOrder ?? true,
+      ...spec.externalReference && { ExternalReference: spec.externalReference },
+      ...spec.isForceOpen && { IsForceOpen: spec.isForceOpen },
       ...(order_type !== "market") && { 
-        OrderDuration: options.duration || { DurationType: "GoodTillCancel" }
+        OrderDuration: toOrderDuration(spec.duration)
       },
     };
 
-    const response = await fetch(`${clientConfig.apiEndpoint}/trade/v2/orders`, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${token.access_token}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(orderRequest)
-    })
-      .then((response) => response.json())
-      .then(handleError);
+    // Saxo rejects a repeated request id, so a retried submission cannot be filled twice
+    const requestId = spec.requestId ?? (await getCrypto()).randomUUID();
+    const response = await request(transport, "/trade/v2/orders", {}, "POST", orderRequest, { requestId, retry: spec.retry });
 
     if (!response || !response.OrderId) {
-      throw new Error("Failed to place order: No OrderId returned");
+      throw new SaxoApiError("Failed to place order: No OrderId returned", { status: 0, requestId, endpoint: "/trade/v2/orders" });
     }
+    return { response, uic, assetType };
+  };
+
+  const placeOrder = async (account_key: string, spec: OrderSpec): Promise<Position | Order> => {
+    const { response, uic, assetType } = await sendOrder(account_key, spec);
 
     // Try to get the full order details, or fallback to check positions
-    try {
-      const orderDetails = await request(token.access_token, `/trade/v2/orders/${client_key}/${response.OrderId}`, clientConfig.apiEndpoint);
-      if (orderDetails) return orderDetails;
-    } catch (error) {
-      // Order might have been executed immediately, check positions
-      const positions = await getPositions(account_key);
-      const position = positions?.find((pos: Position) => internal(pos).PositionBase?.SourceOrderId === response.OrderId);
-      if (position) return position;
-    }
+    const placed = await afterPlacement(async (): Promise<Position | Order | undefined> => {
+      try {
+        const orderDetails = await request(transport, `/port/v1/orders/${client_key}/${response.OrderId}`);
+        return orderDetails ? toOrder(orderDetails) : undefined;
+      } catch (error) {
+        // Order might have been executed immediately, check positions
+        const positions = await getPositions(account_key);
+        return positions?.find((pos: Position) => internal(pos).PositionBase?.SourceOrderId === response.OrderId);
+      }
+    }, undefined);
+    if (placed) return placed;
 
     // Fallback: return a basic order object with the information we have
-    return {
+    return lock({
       id: response.OrderId,
-      type: type,
-      order_type: order_type,
-      price: price || 0,
-      quantity: quantity,
+      type: spec.type,
+      order_type: spec.order_type,
+      price: ("price" in spec && spec.price) || 0,
+      quantity: spec.quantity,
       time: new Date(),
       uic: uic,
       client_id: client_id,
       account_id: account_key,
       exchange_id: "",
       status: "working" as const,
-      externalReference: options.externalReference,
-      assetType: options.assetType || "FxSpot"
-    } as Order;
+      externalReference: spec.externalReference,
+      assetType,
+      [INTERNAL]: response,
+    });
   };
 
-  const cancelOrder = async (account_key: string, orderId: string) => {
-    return await fetch(`${clientConfig.apiEndpoint}/trade/v2/orders/${orderId}?AccountKey=${account_key}`, {
-      method: "DELETE",
-      headers: {
-        "Authorization": `Bearer ${token.access_token}`,
-        "Content-Type": "application/json",
+  // The activity log still lists orders once they have filled or been cancelled, unlike the working orders
+  const trackOrder = (account_key: string, orderId: string, options: TrackOptions = {}): OrderHandle => {
+    const pollInterval = options.pollInterval ?? 1000;
+    const endpoint = "/cs/v1/audit/orderactivities";
+    const events = createEmitter<OrderEvent>();
+    const waiters = new Set<() => void>();
+    const applied = new Set<string>();
+    let state: OrderState = "working";
+    let filledQuantity = 0;
+    let filledValue = 0;
+    let averageFillPrice: number | undefined;
+    let rejection: Any;
+    let stopped = false;
+    let polling = false;
+    let listeners = 0;
+    let iterators = 0;
+    let timer: ReturnType<typeof setTimeout> | undefined;
+
+    const final = () => state === "filled" || state === "cancelled" || state === "rejected";
+    // Nobody would learn of the order's events otherwise, and a pending timer keeps the process alive
+    const interested = () => waiters.size + listeners + iterators > 0;
+
+    const apply = (activity: Any) => {
+      const time = new Date(activity.ActivityTime);
+      if (activity.Status === "Fill" || activity.Status === "FinalFill") {
+        const quantity = activity.FilledAmount - filledQuantity;
+        filledQuantity = activity.FilledAmount;
+        filledValue += quantity * activity.ExecutionPrice;
+        averageFillPrice = activity.AveragePrice ?? filledValue / filledQuantity;
+        state = activity.Status === "FinalFill" ? "filled" : "partially_filled";
+        events.emit({ type: state === "filled" ? "fill" : "partial_fill", quantity, price: activity.ExecutionPrice, time });
+      } else if (activity.Status === "Cancelled" || activity.Status === "Expired") {
+        state = "cancelled";
+        events.emit({ type: "cancelled", time });
+      } else if (activity.Status === "Rejected") {
+        state = "rejected";
+        rejection = activity.ErrorInfo;
+        events.emit({ type: "rejected", reason: rejection?.Message, time });
+      }
+    };
+
+    const poll = async () => {
+      try {
+        const result = await request(transport, `${endpoint}?ClientKey=${client_key}&AccountKey=${account_key}&OrderId=${orderId}`);
+        for (const activity of result?.Data ?? []) {
+          if (final() || applied.has(activity.LogId)) continue;
+          applied.add(activity.LogId);
+          apply(activity);
+        }
+      } catch {
+        // Requests already retry transient failures, anything else is tried again on the next read
+      }
+      if (stopped) return;
+      waiters.forEach(waiter => waiter());
+      polling = !final() && interested();
+      if (final()) events.end();
+      else if (polling) timer = setTimeout(poll, pollInterval);
+    };
+
+    const resume = () => {
+      if (polling || stopped || final() || !interested()) return;
+      polling = true;
+      void poll();
+    };
+
+    const waitForStatus = (status: OrderState | OrderState[], { timeout }: WaitOptions = {}) => new Promise<OrderHandle>((resolve, reject) => {
+      const states = [status].flat();
+      const fail = (message: string, errorCode?: string) =>
+        reject(new SaxoOrderError(message, { status: 0, errorCode, endpoint, orderId, state }));
+      const settle = () => {
+        waiters.delete(check);
+        clearTimeout(deadline);
+      };
+      const check = () => {
+        if (states.includes(state)) {
+          settle();
+          resolve(handle);
+        } else if (final() || stopped) {
+          settle();
+          fail(stopped ? `Stopped following order ${orderId}` : `Order ${orderId} was ${state} instead of ${states.join(" or ")}`, rejection?.ErrorCode);
+        }
+      };
+      const deadline = timeout === undefined ? undefined : setTimeout(() => {
+        settle();
+        fail(`Timed out waiting for order ${orderId} to be ${states.join(" or ")}`);
+      }, timeout);
+      waiters.add(check);
+      check();
+      resume();
+    });
+
+    const handle: OrderHandle = lock({
+      id: orderId,
+      get status() {
+        return state;
+      },
+      get filledQuantity() {
+        return filledQuantity;
+      },
+      get averageFillPrice() {
+        return averageFillPrice;
+      },
+      waitForFill: (options?: WaitOptions) => waitForStatus("filled", options),
+      waitForStatus,
+      on: (type: OrderEvent["type"], listener: (event: OrderEvent) => void) => {
+        const off = events.on(event => {
+          if (event.type === type) listener(event);
+        });
+        listeners++;
+        resume();
+        let removed = false;
+        return () => {
+          if (!removed) listeners--;
+          removed = true;
+          return off();
+        };
       },
-    })
-      .then((response) => {
-        if (!response.ok) throw new Error(`Failed to cancel order: ${response.statusText}`);
-        return response.status === 204 ? {} : response.json();
-      })
-      .then(handleError);
+      stop: () => {
+        if (stopped || final()) return;
+        stopped = true;
+        clearTimeout(timer);
+        waiters.forEach(waiter => waiter());
+        events.end();
+      },
+      [Symbol.asyncIterator]: () => {
+        const iterator = events.iterate();
+        let open = true;
+        const close = () => {
+          if (open) iterators--;
+          open = false;
+        };
+        iterators++;
+        resume();
+        return {
+          next: async () => {
+            const result = await iterator.next();
+            if (result.done) close();
+            return result;
+          },
+          return: async () => {
+            close();
+            return iterator.return!();
+          },
+          [Symbol.asyncIterator]() {
+            return this;
+          },
+        };
+      },
+      [INTERNAL]: { account_key },
+    });
+
+    return handle;
   };
 
-  const cancelAllOrders = async (account_key: string, uic: number, assetType: AssetType = "FxSpot") => {
-    return await fetch(`${clientConfig.apiEndpoint}/trade/v2/orders?AccountKey=${account_key}&AssetType=${assetType}&Uic=${uic}`, {
-      method: "DELETE",
-      headers: {
-        "Authorization": `Bearer ${token.access_token}`,
-        "Content-Type": "application/json",
-      },
-    })
-      .then((response) => {
-        if (!response.ok) throw new Error(`Failed to cancel orders: ${response.statusText}`);
-        return response.status === 204 ? {} : response.json();
-      })
-      .then(handleError);
+  const submitOrder = async (account_key: string, spec: OrderSpec, options?: TrackOptions) =>
+    trackOrder(account_key, (await sendOrder(account_key, spec)).response.OrderId, options);
+
+  // Positional form of placeOrder behind buy and sell
+  const createOrder = async (
+    account_key: string, 
+    type: Order["type"], 
+    instrument: number | string, 
+    quantity: number, 
+    order_type: Order["order_type"] = "market", 
+    price?: number, 
+    stop_limit?: number,
+    options: OrderOptions = {}
+  ) => {
+    const { trailingStopDistanceToMarket, trailingStopStep, ...rest } = options;
+    return placeOrder(account_key, {
+      ...rest,
+      type,
+      uic: instrument,
+      quantity,
+      order_type,
+      price,
+      // Legacy calls pass a stop limit positionally, it only belongs to stop limit orders
+      ...order_type === "stop_limit" && { stop_limit },
+      distance: trailingStopDistanceToMarket,
+      step: trailingStopStep,
+    } as OrderSpec);
   };
 
-  const modifyOrder = async (account_key: string, orderId: string, price?: number, quantity?: number) => {
-    // First get the current order to determine its type
-    let currentOrder;
-    try {
-      const orders = await getOrders(account_key);
-      currentOrder = orders?.find((o: any) => o.id === orderId);
-      if (!currentOrder) {
-        throw new Error(`Order ${orderId} not found`);
-      }
-    } catch (error) {
-      throw new Error(`Failed to get order details: ${error}`);
+  const cancelOrder = async (account_key: string, order: string | Order) => {
+    if (typeof order !== "string" && order.multiLeg) {
+      return await request(transport, `/trade/v2/orders/multileg/${order.multiLeg.id}?AccountKey=${account_key}`, {}, "DELETE");
+    }
+    // An OCO partner left working alone would no longer be cancelled by a fill
+    const ids = typeof order === "string" ? [order]
+      : [order.id, ...order.relation === "Oco" ? order.related?.map(related => related.id) ?? [] : []];
+    return await request(transport, `/trade/v2/orders/${ids.join(",")}?AccountKey=${account_key}`, {}, "DELETE");
+  };
+
+  const placeOcoOrders = async (account_key: string, instrument: number | string, first: OcoOrder, second: OcoOrder, options: OrderOptions = {}): Promise<OrderGroup> => {
+    for (const order of [first, second]) checkOrderPrices(["limit", "stop", "stop_limit"], order);
+
+    const resolved = typeof instrument === "string" ? await resolveSymbol(instrument, options.assetType) : undefined;
+    const toOcoOrder = (order: OcoOrder) => ({
+      AccountKey: account_key,
+      Uic: resolved?.uic ?? instrument,
+      AssetType: resolved?.assetType ?? options.assetType ?? "FxSpot",
+      BuySell: order.type === "buy" ? "Buy" : "Sell",
+      OrderType: order.order_type === "limit" ? "Limit" : order.order_type === "stop" ? "Stop" : "StopLimit",
+      Amount: order.quantity,
+      OrderPrice: order.price,
+      ...order.order_type === "stop_limit" && { StopLimitPrice: order.stop_limit },
+      OrderRelation: "Oco",
+      OrderDuration: toOrderDuration(order.duration ?? options.duration),
+      ManualOrder: options.manualOrder ?? true,
+      ...options.externalReference && { ExternalReference: options.externalReference },
+    });
+
+    const requestId = options.requestId ?? (await getCrypto()).randomUUID();
+    const response = await request(transport, "/trade/v2/orders", {}, "POST", { Orders: [toOcoOrder(first), toOcoOrder(second)] }, { requestId, retry: options.retry });
+    const legs: Any[] = response?.Orders ?? [];
+    const ids: string[] = legs.map(order => order.OrderId);
+    if (ids.length !== 2 || !ids.every(Boolean)) {
+      // Saxo rejects each order of the pair on its own, the other one may have been placed
+      const rejected = legs.find(order => !order.OrderId)?.ErrorInfo;
+      const placed = ids.filter(Boolean);
+      const message = rejected ? `${rejected.ErrorCode}: ${rejected.Message}` : "No OrderIds returned";
+      throw new SaxoApiError(`Failed to place OCO orders: ${message}${placed.length ? `, placed ${placed.join(", ")} on its own` : ""}`, {
+        status: 0,
+        errorCode: rejected?.ErrorCode,
+        requestId,
+        endpoint: "/trade/v2/orders",
+        cause: rejected,
+      });
     }
 
-    const updateData: Any = {
+    const working: Order[] = await afterPlacement(() => getOrders(account_key), []);
+    return lock({
+      ids,
+      orders: ids.map(id => working.find(order => order.id === id)).filter((order): order is Order => !!order),
+      cancel: async () => {
+        await request(transport, `/trade/v2/orders/${ids.join(",")}?AccountKey=${account_key}`, {}, "DELETE");
+      },
+      [INTERNAL]: response,
+    });
+  };
+
+  const toMultiLegRequest = (account_key: string, spec: MultiLegOrderSpec) => {
+    const endpoint = "/trade/v2/orders/multileg";
+    const price = "price" in spec ? spec.price : undefined;
+    checkOrderPrices(["market", "limit"], { order_type: spec.order_type, price }, endpoint);
+    if (!(spec.legs?.length >= 2 && spec.legs.length <= 4)) throw invalidOrder("Multi-leg orders require two to four legs", endpoint);
+    if (spec.legs.some(leg => !(leg.quantity > 0))) throw invalidOrder("Leg quantities must be positive", endpoint);
+
+    return {
       AccountKey: account_key,
-      OrderId: orderId,
-      OrderType: currentOrder.order_type === "market" ? "Market"
-        : currentOrder.order_type === "limit" ? "Limit"
-          : currentOrder.order_type === "stop" ? "Stop"
-            : currentOrder.order_type === "stop_limit" ? "StopLimit"
-              : "Limit", // Default fallback
-      AssetType: currentOrder.assetType,
-      Uic: currentOrder.uic,
-      OrderDuration: { DurationType: "GoodTillCancel" }, // Default duration
+      BuySell: spec.type === "buy" ? "Buy" : "Sell",
+      OrderType: spec.order_type === "market" ? "Market" : "Limit",
+      ...price !== undefined && { OrderPrice: price },
+      ...spec.order_type !== "market" && { OrderDuration: toOrderDuration(spec.duration) },
+      ManualOrder: spec.manualOrder ?? true,
+      ...spec.externalReference && { ExternalReference: spec.externalReference },
+      Legs: spec.legs.map(leg => ({
+        Uic: leg.contract.uic,
+        AssetType: leg.contract.assetType,
+        BuySell: leg.type === "buy" ? "Buy" : "Sell",
+        Amount: leg.quantity,
+        ...leg.toOpenClose && { ToOpenClose: leg.toOpenClose },
+      })),
     };
-    
-    if (price !== undefined) updateData.OrderPrice = price;
-    if (quantity !== undefined) updateData.Amount = quantity;
-    
-    return await fetch(`${clientConfig.apiEndpoint}/trade/v2/orders`, {
-      method: "PATCH",
-      headers: {
-        "Authorization": `Bearer ${token.access_token}`,
-        "Content-Type": "application/json",
+  };
+
+  const placeMultiLegOrder = async (account_key: string, spec: MultiLegOrderSpec): Promise<MultiLegOrder> => {
+    const orderRequest = toMultiLegRequest(account_key, spec);
+    const requestId = spec.requestId ?? (await getCrypto()).randomUUID();
+    const response = await request(transport, "/trade/v2/orders/multileg", {}, "POST", orderRequest, { requestId, retry: spec.retry });
+    const id: string | undefined = response?.MultiLegOrderId;
+    if (!id) {
+      throw new SaxoApiError("Failed to place multi-leg order: No MultiLegOrderId returned", { status: 0, requestId, endpoint: "/trade/v2/orders/multileg" });
+    }
+
+    const working: Order[] = await afterPlacement(() => getOrders(account_key), []);
+    return lock({
+      id,
+      ids: response.Orders?.map((order: Any) => order.OrderId) ?? [],
+      orders: working.filter(order => order.multiLeg?.id === id),
+      cancel: async () => {
+        await request(transport, `/trade/v2/orders/multileg/${id}?AccountKey=${account_key}`, {}, "DELETE");
       },
-      body: JSON.stringify(updateData)
-    })
-      .then((response) => response.json())
-      .then(handleError);
+      [INTERNAL]: response,
+    });
+  };
+
+  // Without a PositionId the order is netted against the instrument, which opens a new position on accounts without netting
+  const closePosition = async (account_key: string, position: string | Position, options: ClosePositionOptions = {}) => {
+    const { orderType = "market", price } = options;
+    checkOrderPrices(["market", "limit", "stop"], { order_type: orderType, price });
+
+    const open: Position | undefined = typeof position !== "string" ? position
+      : (await getPositions(account_key)).find((pos: Position) => pos.id === position);
+    if (!open) {
+      throw new SaxoApiError(`Failed to get position details: Position ${position} not found`, { status: 0, endpoint: "/port/v1/positions" });
+    }
+    // Net and closed positions have ids of their own, only open positions carry the PositionId an order closes
+    const base = internal(open)?.PositionId !== undefined && internal(open).PositionBase;
+    if (!base) throw invalidOrder(`${open.id} is not an open position, pass one returned by getPositions or its id`);
+    const quantity = options.quantity ?? Math.abs(open.quantity);
+    if (quantity <= 0 || quantity > Math.abs(open.quantity)) throw invalidOrder(`Quantity must be positive and at most ${Math.abs(open.quantity)}`);
+
+    const orderRequest = {
+      AccountKey: account_key,
+      Uic: open.uic,
+      AssetType: base.AssetType,
+      BuySell: open.quantity > 0 ? "Sell" : "Buy",
+      OrderType: orderType === "market" ? "Market" : orderType === "limit" ? "Limit" : "Stop",
+      Amount: quantity,
+      ...price !== undefined && { OrderPrice: price },
+      PositionId: open.id,
+      ManualOrder: true,
+      ...orderType !== "market" && { OrderDuration: toOrderDuration() },
+    };
+    const requestId = (await getCrypto()).randomUUID();
+    const response = await request(transport, "/trade/v2/orders", {}, "POST", orderRequest, { requestId });
+    if (!response?.OrderId) {
+      throw new SaxoApiError("Failed to close position: No OrderId returned", { status: 0, requestId, endpoint: "/trade/v2/orders" });
+    }
+    return response.OrderId as string;
+  };
+
+  const closeAllPositions = async (account_key: string, uic?: number) => {
+    const positions: Position[] = (await getPositions(account_key)).filter((position: Position) => uic === undefined || position.uic === uic);
+    // One at a time, as orders share a tight rate limit
+    const ids: string[] = [];
+    for (const position of positions) {
+      try {
+        ids.push(await closePosition(account_key, position));
+      } catch (error) {
+        const details: SaxoErrorDetails = error instanceof SaxoApiError ? error : { status: 0, endpoint: "/trade/v2/orders" };
+        throw new SaxoCloseError(`Closed ${ids.length} of ${positions.length} positions, position ${position.id} failed: ${(error as Error).message}`, {
+          status: details.status,
+          errorCode: details.errorCode,
+          modelState: details.modelState,
+          requestId: details.requestId,
+          endpoint: details.endpoint,
+          cause: error,
+          orderIds: ids,
+          positionId: position.id,
+        });
+      }
+    }
+    return ids;
+  };
+
+  const cancelAllOrders = async (account_key: string, uic: number, assetType: AssetType = "FxSpot") => {
+    return await request(transport, `/trade/v2/orders?AccountKey=${account_key}&AssetType=${assetType}&Uic=${uic}`, {}, "DELETE");
+  };
+
+  // Saxo replaces the whole order, so unchanged fields are sent with their current values
+  const modifyOrder = async (account_key: string, orderId: string, changes?: OrderChanges | number, quantity?: number) => {
+    const { takeProfit, stopLoss, ...entry }: OrderChanges = typeof changes === "object" ? changes : { price: changes, quantity };
+    if ([entry, takeProfit, stopLoss].some(change => change?.expiration && change.duration)) {
+      throw invalidOrder("Pass either an expiration or a duration, an expiration sets a GoodTillDate duration");
+    }
+    const current = await request(transport, `/port/v1/orders/${client_key}/${orderId}`);
+
+    // Exit orders are listed with the order, a take profit is its limit order and a stop loss its stop order
+    const exits = (current.RelatedOpenOrders ?? []) as Any[];
+    const exit = (name: string, types: string[]) => {
+      const found = exits.find(related => types.includes(related.OpenOrderType));
+      if (!found) throw new SaxoValidationError(`Order ${orderId} has no ${name} order`, { status: 0, endpoint: "/trade/v2/orders" });
+      return found;
+    };
+
+    const toChange = (order: Any, change: OrderChanges) => {
+      const price = change.price ?? order.Price ?? order.OrderPrice;
+      const stopLimit = change.stop_limit ?? order.StopLimitPrice;
+      const distance = change.distance ?? order.TrailingStopDistanceToMarket;
+      const step = change.step ?? order.TrailingStopStep;
+      return {
+        AccountKey: account_key,
+        OrderId: order.OrderId,
+        AssetType: current.AssetType,
+        OrderType: order.OpenOrderType,
+        Amount: change.quantity ?? order.Amount,
+        ...price !== undefined && { OrderPrice: price },
+        ...stopLimit !== undefined && { StopLimitPrice: stopLimit },
+        ...distance !== undefined && { TrailingStopDistanceToMarket: distance, TrailingStopStep: step },
+        OrderDuration: change.expiration ? { DurationType: "GoodTillDate", ExpirationDateTime: change.expiration.toISOString() }
+          : change.duration ? toOrderDuration(change.duration)
+            : order.Duration,
+      };
+    };
+
+    const related = [
+      ...takeProfit ? [toChange(exit("take profit", ["Limit"]), takeProfit)] : [],
+      ...stopLoss ? [toChange(exit("stop loss", ["Stop", "StopLimit", "TrailingStopIfTraded"]), stopLoss)] : [],
+    ];
+    const change = toChange(current, entry);
+    await request(transport, "/trade/v2/orders", {}, "PATCH", { ...change, ...related.length && { Orders: related } });
+
+    // An order modified into the market fills at once and is no longer listed, any other failed
+    // lookup leaves the order with its last known status as the modification has been applied
+    let filled = false;
+    const updated = await request(transport, `/port/v1/orders/${client_key}/${orderId}`).catch((error: unknown) => {
+      filled = error instanceof SaxoApiError && error.status === 404;
+      return undefined;
+    });
+    return toOrder(updated ?? {
+      ...current,
+      Amount: change.Amount,
+      Price: change.OrderPrice,
+      StopLimitPrice: change.StopLimitPrice,
+      TrailingStopDistanceToMarket: change.TrailingStopDistanceToMarket,
+      TrailingStopStep: change.TrailingStopStep,
+      Duration: change.OrderDuration,
+      Status: filled ? "Filled" : current.Status,
+    });
   };
 
   const getNetPositions = async (account_key?: string) => {
@@ -578,8 +2457,8 @@ export const createClient = async (auth: Credentials, config: AppConfig) => {
       ? `/port/v1/netpositions?ClientKey=${client_key}&AccountKey=${account_key}` 
       : "/port/v1/netpositions/me";
     
-    try {
-      const result = await request(token.access_token, endpoint, clientConfig.apiEndpoint).then(handleError);
+    return read(async () => {
+      const result = await request(transport, endpoint);
       return result?.Data?.map((netPos: Any) => (lock({
         id: netPos.NetPositionId,
         uic: netPos.NetPositionBase.Uic,
@@ -594,9 +2473,7 @@ export const createClient = async (auth: Credentials, config: AppConfig) => {
         assetType: netPos.NetPositionBase.AssetType,
         [INTERNAL]: netPos,
       }))) || [];
-    } catch (error) {
-      return [];
-    }
+    }, [] as Position[]);
   };
 
   const getClosedPositions = async (account_key?: string, fromDate?: Date, toDate?: Date) => {
@@ -604,11 +2481,12 @@ export const createClient = async (auth: Credentials, config: AppConfig) => {
       ? `/port/v1/closedpositions?ClientKey=${client_key}&AccountKey=${account_key}` 
       : "/port/v1/closedpositions/me";
     
-    if (fromDate) endpoint += `&FromDateTime=${fromDate.toISOString()}`;
-    if (toDate) endpoint += `&ToDateTime=${toDate.toISOString()}`;
+    const separator = () => endpoint.includes("?") ? "&" : "?";
+    if (fromDate) endpoint += `${separator()}FromDateTime=${fromDate.toISOString()}`;
+    if (toDate) endpoint += `${separator()}ToDateTime=${toDate.toISOString()}`;
     
-    try {
-      const result = await request(token.access_token, endpoint, clientConfig.apiEndpoint).then(handleError);
+    return read(async () => {
+      const result = await request(transport, endpoint);
       return result?.Data?.map((closedPos: Any) => (lock({
         id: closedPos.ClosedPositionId,
         uic: closedPos.PositionBase.Uic,
@@ -622,9 +2500,7 @@ export const createClient = async (auth: Credentials, config: AppConfig) => {
         currency: closedPos.PositionView.ExposureCurrency,
         [INTERNAL]: closedPos,
       }))) || [];
-    } catch (error) {
-      return [];
-    }
+    }, [] as Position[]);
   };
 
   const getExposure = async (account_key?: string) => {
@@ -632,26 +2508,11 @@ export const createClient = async (auth: Credentials, config: AppConfig) => {
       ? `/port/v1/exposure?ClientKey=${client_key}&AccountKey=${account_key}` 
       : "/port/v1/exposure/me";
     
-    try {
-      return await request(token.access_token, endpoint, clientConfig.apiEndpoint).then(handleError);
-    } catch (error) {
-      return {};
-    }
+    return read(() => request(transport, endpoint), {});
   };
 
-  const preCheckOrder = async (orderRequest: OrderRequest): Promise<PreCheckResult> => {
-    const response = await fetch(`${clientConfig.apiEndpoint}/trade/v2/orders/precheck`, {
-      method: "POST",
-      headers: {
-        "Authorization": `Bearer ${token.access_token}`,
-        "Content-Type": "application/json",
-      },
-      body: JSON.stringify(orderRequest)
-    })
-      .then((response) => response.json())
-      .then(handleError);
-
-    // Transform TitleCase API response to camelCase
+  // Transform TitleCase API response to camelCase
+  const toPreCheckResult = (response: Any): PreCheckResult => {
     const result: PreCheckResult = {};
 
     if (response.EstimatedCosts || response.Costs) {
@@ -685,21 +2546,366 @@ export const createClient = async (auth: Credentials, config: AppConfig) => {
     return result;
   };
 
-  const getAccounts = async () => (await request(token.access_token, "/port/v1/accounts/me", clientConfig.apiEndpoint).catch(handleError))?.Data?.map((account: Any) => (lock({
+  const preCheckOrder = async (orderRequest: OrderRequest, options: RequestOptions = {}) =>
+    toPreCheckResult(await request(transport, "/trade/v2/orders/precheck", {}, "POST", orderRequest, { idempotent: true, retry: options.retry }));
+
+  const preCheckMultiLegOrder = async (account_key: string, spec: MultiLegOrderSpec) => toPreCheckResult(
+    await request(transport, "/trade/v2/orders/multileg/precheck", {}, "POST", toMultiLegRequest(account_key, spec), { idempotent: true, retry: spec.retry }),
+  );
+
+  const toQuote = (price: Any): Quote => lock({
+    uic: price.Uic,
+    assetType: price.AssetType,
+    time: new Date(price.LastUpdated),
+    bid: price.Quote?.Bid,
+    ask: price.Quote?.Ask,
+    mid: price.Quote?.Mid ?? (price.Quote?.Bid + price.Quote?.Ask) / 2,
+    bidSize: price.Quote?.BidSize,
+    askSize: price.Quote?.AskSize,
+    last: price.PriceInfoDetails?.LastTraded,
+    delayed: price.Quote?.DelayedByMinutes === undefined ? undefined : price.Quote.DelayedByMinutes > 0,
+    marketState: price.Quote?.MarketState,
+    [INTERNAL]: price,
+  });
+
+  // Search results only carry the summary fields, details add the trading conditions
+  const toInstrument = (instrument: Any): Instrument => lock({
+    uic: instrument.Uic ?? instrument.Identifier,
+    assetType: instrument.AssetType,
+    symbol: instrument.Symbol,
+    description: instrument.Description,
+    currency: instrument.CurrencyCode,
+    exchangeId: instrument.Exchange?.ExchangeId ?? instrument.ExchangeId,
+    tickSize: instrument.TickSize ?? instrument.TickSizeScheme?.DefaultTickSize,
+    lotSize: instrument.LotSize,
+    minAmount: instrument.MinimumTradeSize,
+    orderTypes: instrument.SupportedOrderTypes ?? [],
+    durations: [...new Set<string>(instrument.SupportedOrderTypeSettings?.flatMap((settings: Any) => settings.DurationTypes ?? []))],
+    [INTERNAL]: instrument,
+  });
+
+  const searchInstruments = async ({ keywords, assetTypes, exchangeId }: InstrumentQuery) => read(async () => {
+    const result = await request(transport, "/ref/v1/instruments", {
+      ...keywords && { Keywords: keywords },
+      ...assetTypes?.length && { AssetTypes: assetTypes.join(",") },
+      ...exchangeId && { ExchangeId: exchangeId },
+    });
+    return result?.Data?.map(toInstrument) || [];
+  }, [] as Instrument[]);
+
+  const getInstrumentDetails = async (uic: number, assetType: AssetType = "FxSpot") => read(
+    async () => toInstrument(await request(transport, `/ref/v1/instruments/details/${uic}/${assetType}`)),
+    toInstrument({ Uic: uic, AssetType: assetType })
+  );
+
+  // Without expiry dates Saxo only lists the contracts of the nearest expiry
+  const getOptionChain = async (rootId: number, expiryDates?: string[]): Promise<OptionChain> => {
+    const response = await request(transport, `/ref/v1/instruments/contractoptionspaces/${rootId}`, expiryDates?.length
+      ? { OptionSpaceSegment: "SpecificDates", ExpiryDates: expiryDates.join(",") }
+      : { OptionSpaceSegment: "AllDates" });
+    const expiries = (response?.OptionSpace ?? []) as Any[];
+    return lock({
+      rootId: response?.OptionRootId ?? rootId,
+      assetType: response?.AssetType,
+      expiryDates: expiries.map(expiry => expiry.Expiry.slice(0, 10)).sort(),
+      contracts: expiries.flatMap(expiry => (expiry.SpecificOptions ?? []).map((contract: Any): OptionContract => lock({
+        uic: contract.Uic,
+        assetType: response.AssetType,
+        putCall: contract.PutCall,
+        strike: contract.StrikePrice,
+        expiryDate: expiry.Expiry.slice(0, 10),
+        [INTERNAL]: contract,
+      }))),
+      [INTERNAL]: response,
+    });
+  };
+
+  const findOptionContract = async (rootId: number, putCall: PutCall, strike: number, expiryDate: string) => {
+    const { contracts } = await getOptionChain(rootId, [expiryDate]);
+    const contract = contracts.find(contract => contract.putCall === putCall && contract.strike === strike && contract.expiryDate === expiryDate);
+    if (!contract) {
+      throw new SaxoValidationError(`No ${putCall} with strike ${strike} expiring ${expiryDate} in option root ${rootId}`, {
+        status: 0,
+        endpoint: "/ref/v1/instruments/contractoptionspaces",
+      });
+    }
+    return contract;
+  };
+
+  // Instruments by upper case symbol, looked up once per client
+  const symbols = new Map<string, Promise<Instrument[]>>();
+
+  const resolveSymbol = async (symbol: string, assetType?: AssetType) => {
+    const key = symbol.toUpperCase();
+    let lookup = symbols.get(key);
+    if (!lookup) {
+      lookup = request(transport, "/ref/v1/instruments", { Keywords: symbol }).then(result =>
+        (result?.Data?.map(toInstrument) as Instrument[] ?? []).filter(instrument => instrument.symbol.toUpperCase() === key));
+      symbols.set(key, lookup);
+    }
+    // Failed lookups are retried by the next call
+    const matches = await lookup.catch(error => {
+      symbols.delete(key);
+      throw error;
+    });
+
+    const candidates = matches.filter(instrument => !assetType || instrument.assetType === assetType);
+    const details = { status: 0, endpoint: "/ref/v1/instruments" };
+    if (!candidates.length) throw new SaxoValidationError(`No ${assetType ?? "instrument"} found with symbol ${symbol}`, details);
+    if (candidates.length > 1) {
+      const assetTypes = candidates.map(instrument => instrument.assetType).join(", ");
+      throw new SaxoAmbiguousSymbolError(`Symbol ${symbol} matches several instruments (${assetTypes}), pass an asset type to choose one`, { ...details, candidates });
+    }
+    return candidates[0];
+  };
+
+  const fetchQuote = async (uic: number, assetType: AssetType = "FxSpot", fieldGroups: PriceFieldGroup[] = ["Quote"]) =>
+    toQuote(await request(transport, "/trade/v1/infoprices", { Uic: uic, AssetType: assetType, FieldGroups: fieldGroups.join(",") }));
+
+  const getQuote = async (uic: number, assetType: AssetType = "FxSpot", fieldGroups: PriceFieldGroup[] = ["Quote"]) =>
+    read(() => fetchQuote(uic, assetType, fieldGroups), toQuote({ Uic: uic, AssetType: assetType }));
+
+  const getQuotes = async (uics: number[], assetType: AssetType = "FxSpot", fieldGroups: PriceFieldGroup[] = ["Quote"]) => read(async () => {
+    const result = await request(transport, "/trade/v1/infoprices/list", { Uics: uics.join(","), AssetType: assetType, FieldGroups: fieldGroups.join(",") });
+    return result?.Data?.map(toQuote) || [];
+  }, [] as Quote[]);
+
+  const toCandle = (candle: Any): Candle => {
+    const prices = (suffix: string): Ohlc | undefined => candle[`Open${suffix}`] === undefined ? undefined : {
+      open: candle[`Open${suffix}`],
+      high: candle[`High${suffix}`],
+      low: candle[`Low${suffix}`],
+      close: candle[`Close${suffix}`],
+    };
+    const bid = prices("Bid");
+    const ask = prices("Ask");
+    const mid = bid && ask && {
+      open: (bid.open + ask.open) / 2,
+      high: (bid.high + ask.high) / 2,
+      low: (bid.low + ask.low) / 2,
+      close: (bid.close + ask.close) / 2,
+    };
+    return lock({
+      time: new Date(candle.Time),
+      ...(prices("") ?? mid)!,
+      volume: candle.Volume,
+      bid,
+      ask,
+      [INTERNAL]: candle,
+    });
+  };
+
+  // Gateways without chart v3 answer it with a bare 404, after which v1 is used
+  let chartVersion = "v3";
+  const getChartPage = async (query: Record<string, string | number>): Promise<Any> => {
+    try {
+      return await request(transport, `/chart/${chartVersion}/charts`, query);
+    } catch (error) {
+      if (chartVersion !== "v3" || !(error instanceof SaxoApiError) || error.status !== 404 || error.errorCode) throw error;
+      chartVersion = "v1";
+      return getChartPage(query);
+    }
+  };
+
+  const getCandles = async ({ uic, assetType = "FxSpot", horizon, mode = "UpTo", from, to, count }: CandleQuery) => {
+    if (mode === "From" && !from) throw new SaxoValidationError("Reading candles in From mode requires a from date", { status: 0, endpoint: "/chart/v3/charts" });
+    const bound = mode === "From" ? to : from;
+    return read(async () => {
+      const candles: Candle[] = [];
+      // Pages are read away from the anchor until the range, the count or the available history is exhausted
+      for (let time = mode === "From" ? from! : to ?? new Date(); ;) {
+        const size = count === undefined ? CHART_PAGE_SIZE : Math.min(CHART_PAGE_SIZE, count - candles.length);
+        const result = await getChartPage({ Uic: uic, AssetType: assetType, Horizon: horizon, Mode: mode, Time: time.toISOString(), Count: size });
+        const page: Candle[] = result?.Data?.map(toCandle) ?? [];
+        const within = page.filter(candle => !bound || (mode === "From" ? candle.time <= bound : candle.time >= bound));
+        if (mode === "From") candles.push(...within);
+        else candles.unshift(...within);
+
+        if (page.length < size || within.length < page.length || candles.length === count || (!bound && count === undefined)) return candles;
+        time = new Date(mode === "From" ? page.at(-1)!.time.getTime() + 1 : page[0].time.getTime() - 1);
+      }
+    }, [] as Candle[]);
+  };
+
+  const streaming = createStreaming(transport, randomString(16, await getCrypto()));
+
+  const subscribePrices = async (uics: number[], assetType: AssetType = "FxSpot", fieldGroups: PriceFieldGroup[] = ["Quote"]): Promise<PriceSubscription> => {
+    const prices = new Map<number, Any>();
+    const all = createEmitter<Quote>();
+    const instruments = new Map(uics.map(uic => [uic, createEmitter<Quote>()]));
+
+    // Deltas only carry the changed fields, merged into the last known price of the instrument
+    const update = (price: Any) => {
+      const merged = mergeDelta(prices.get(price.Uic) ?? { AssetType: assetType }, price);
+      prices.set(price.Uic, merged);
+      const quote = toQuote(merged);
+      instruments.get(price.Uic)?.emit(quote);
+      all.emit(quote);
+    };
+
+    const subscription = await streaming.subscribe("/trade/v1/infoprices/subscriptions", {
+      Uics: uics.join(","),
+      AssetType: assetType,
+      FieldGroups: fieldGroups,
+    }, {
+      onSnapshot: (snapshot) => snapshot?.Data?.forEach(update),
+      onDelta: (payload) => (Array.isArray(payload) ? payload : [payload]).forEach(update),
+    });
+
+    const unsubscribe = async () => {
+      await subscription.unsubscribe();
+      all.end();
+      instruments.forEach(emitter => emitter.end());
+    };
+
+    return lock({
+      get referenceId() {
+        return subscription.referenceId;
+      },
+      quotes: () => [...prices.values()].map(toQuote),
+      instrument: (uic: number) => {
+        const emitter = instruments.get(uic);
+        if (!emitter) throw new Error(`Instrument ${uic} is not part of this subscription`);
+        return lock({
+          get current() {
+            return prices.has(uic) ? toQuote(prices.get(uic)) : undefined;
+          },
+          on: emitter.on,
+          [Symbol.asyncIterator]: emitter.iterate,
+        });
+      },
+      on: all.on,
+      unsubscribe,
+      [Symbol.asyncIterator]: all.iterate,
+      [INTERNAL]: subscription,
+    });
+  };
+
+  // Snapshots replace the collection, deltas are merged per item and flagged with __meta_deleted once removed
+  const subscribeCollection = async <T>(endpoint: string, args: Any, idField: string, map: (raw: Any) => T): Promise<LiveCollection<T>> => {
+    const raws = new Map<string, Any>();
+    const items = new Map<string, T>();
+    const events = createEmitter<CollectionEvent<T>>();
+
+    const remove = (id: string) => {
+      const item = items.get(id);
+      if (!item) return;
+      raws.delete(id);
+      items.delete(id);
+      events.emit({ type: "removed", item });
+    };
+
+    const set = (id: string, raw: Any) => {
+      const previous = raws.get(id);
+      if (previous && JSON.stringify(previous) === JSON.stringify(raw)) return;
+      const item = map(raw);
+      raws.set(id, raw);
+      items.set(id, item);
+      events.emit({ type: previous ? "updated" : "added", item });
+    };
+
+    const subscription = await streaming.subscribe(endpoint, args, {
+      onSnapshot: (snapshot) => {
+        const data: Any[] = snapshot?.Data ?? [];
+        const ids = new Set(data.map(raw => raw[idField]));
+        [...raws.keys()].filter(id => !ids.has(id)).forEach(remove);
+        data.forEach(raw => set(raw[idField], raw));
+      },
+      onDelta: (payload) => (Array.isArray(payload) ? payload : [payload]).forEach(delta => {
+        const id = delta[idField];
+        if (delta.__meta_deleted) remove(id);
+        else set(id, mergeDelta(raws.get(id) ?? {}, delta));
+      }),
+    });
+
+    return lock({
+      get referenceId() {
+        return subscription.referenceId;
+      },
+      items: () => [...items.values()],
+      get: (id: string) => items.get(id),
+      on: (type: CollectionEvent<T>["type"], listener: (item: T) => void) => events.on(event => {
+        if (event.type === type) listener(event.item);
+      }),
+      unsubscribe: async () => {
+        await subscription.unsubscribe();
+        events.end();
+      },
+      [Symbol.asyncIterator]: events.iterate,
+      [INTERNAL]: subscription,
+    });
+  };
+
+  const subscribePositions = (account_key?: string) => subscribeCollection("/port/v1/positions/subscriptions", {
+    ClientKey: client_key,
+    ...account_key && { AccountKey: account_key },
+    FieldGroups: ["PositionBase", "PositionView"],
+  }, "PositionId", toPosition);
+
+  const subscribeOrders = (account_key?: string) => subscribeCollection("/port/v1/orders/subscriptions", {
+    ClientKey: client_key,
+    ...account_key && { AccountKey: account_key },
+  }, "OrderId", toOrder);
+
+  const subscribeBalance = async (account_key: string, currency: string): Promise<BalanceSubscription> => {
+    let raw: Any = { Currency: currency };
+    const updates = createEmitter<Balance>();
+    const update = (next: Any) => {
+      raw = next;
+      updates.emit(toBalance(raw));
+    };
+
+    const subscription = await streaming.subscribe("/port/v1/balances/subscriptions", {
+      ClientKey: client_key,
+      AccountKey: account_key,
+    }, {
+      onSnapshot: (snapshot) => update({ Currency: currency, ...snapshot }),
+      onDelta: (delta) => update(mergeDelta(raw, delta)),
+    });
+
+    return lock({
+      get referenceId() {
+        return subscription.referenceId;
+      },
+      get current() {
+        return toBalance(raw);
+      },
+      on: updates.on,
+      unsubscribe: async () => {
+        await subscription.unsubscribe();
+        updates.end();
+      },
+      [Symbol.asyncIterator]: updates.iterate,
+      [INTERNAL]: subscription,
+    });
+  };
+
+  const getAccounts = async () => read(async () => (await request(transport, "/port/v1/accounts/me"))?.Data?.map((account: Any) => lock({
     id: account.AccountId,
     key: account.AccountKey,
     active: account.Active,
     currency: account.Currency,
-    getPositions: () => getPositions(account.AccountId),
-    getBalance: () => getBalance(account.AccountKey),
+    getPositions: () => getPositions(account.AccountKey),
+    getBalance: () => getBalance(account.AccountKey, account.Currency),
     getOrders: () => getOrders(account.AccountKey),
     buy: createOrder.bind(null, account.AccountKey, "buy"),
     sell: createOrder.bind(null, account.AccountKey, "sell"),
-    cancelOrder: (orderId: string) => cancelOrder(account.AccountKey, orderId),
+    placeOrder: (spec: OrderSpec) => placeOrder(account.AccountKey, spec),
+    submitOrder: (spec: OrderSpec, options?: TrackOptions) => submitOrder(account.AccountKey, spec, options),
+    trackOrder: (orderId: string, options?: TrackOptions) => trackOrder(account.AccountKey, orderId, options),
+    placeMultiLegOrder: (spec: MultiLegOrderSpec) => placeMultiLegOrder(account.AccountKey, spec),
+    preCheckMultiLegOrder: (spec: MultiLegOrderSpec) => preCheckMultiLegOrder(account.AccountKey, spec),
+    placeOcoOrders: (uic: number | string, first: OcoOrder, second: OcoOrder, options?: OrderOptions) => placeOcoOrders(account.AccountKey, uic, first, second, options),
+    closePosition: (position: string | Position, options?: ClosePositionOptions) => closePosition(account.AccountKey, position, options),
+    closeAllPositions: (uic?: number) => closeAllPositions(account.AccountKey, uic),
+    cancelOrder: (order: string | Order) => cancelOrder(account.AccountKey, order),
     cancelAllOrders: (uic: number, assetType?: AssetType) => cancelAllOrders(account.AccountKey, uic, assetType),
-    modifyOrder: (orderId: string, price?: number, quantity?: number) => modifyOrder(account.AccountKey, orderId, price, quantity),
+    modifyOrder: (orderId: string, changes?: OrderChanges | number, quantity?: number) => modifyOrder(account.AccountKey, orderId, changes, quantity),
+    subscribePositions: () => subscribePositions(account.AccountKey),
+    subscribeOrders: () => subscribeOrders(account.AccountKey),
+    subscribeBalance: () => subscribeBalance(account.AccountKey, account.Currency),
     [INTERNAL]: account,
-  })));
+  })) || [], [] as Account[]);
 
   const client: Client = lock({
     id: client_data.ClientId,
@@ -712,6 +2918,17 @@ export const createClient = async (auth: Credentials, config: AppConfig) => {
     getClosedPositions,
     getExposure,
     preCheckOrder,
+    searchInstruments,
+    getInstrumentDetails,
+    getOptionChain,
+    getQuote,
+    getQuotes,
+    getCandles,
+    resolveSymbol,
+    getRateLimitMetrics: () => transport.limiter.metrics(),
+    subscribePrices,
+    subscribePositions,
+    subscribeOrders,
     [INTERNAL]: client_data,
   });
 
@@ -0,0 +1,1051 @@
+import type { AssetType, Fetch } from "./index.js";
+
+// eslint-disable-next-line @typescript-eslint/no-explicit-any
+type Any = any;
+
+export interface MockInstrument {
+  uic: number;
+  assetType: AssetType;
+  symbol: string;
+  bid: number;
+  ask: number;
+  /** Defaults to the symbol */
+  description?: string;
+  /** Price currency, defaults to the quote currency of the FX symbol */
+  currency?: string;
+  /** Defaults to "SBFX" */
+  exchangeId?: string;
+  /** Listed option contracts name their option root, which lists them in its chain */
+  optionRootId?: number;
+  putCall?: "Put" | "Call";
+  strike?: number;
+  /** Expiry date as YYYY-MM-DD */
+  expiryDate?: string;
+}
+
+export interface MockAccount {
+  accountId: string;
+  accountKey: string;
+  currency: string;
+  /** Starting cash balance */
+  cash: number;
+}
+
+export interface MockServerOptions {
+  /** Only accept this bearer token (and tokens issued by the mock), any token is accepted when omitted */
+  token?: string;
+  client?: { clientId: string; clientKey: string; name: string };
+  accounts?: MockAccount[];
+  instruments?: MockInstrument[];
+  /** Fraction of the traded value reserved as margin, 0.02 by default */
+  marginRate?: number;
+}
+
+export interface MockRequest {
+  method: string;
+  path: string;
+  body?: Any;
+}
+
+export interface MockServer {
+  /** Handles a request in-process, can be passed as `AppConfig.fetch` */
+  fetch: Fetch;
+  /** Every request received so far */
+  requests: MockRequest[];
+  /** Moves the market of an instrument and fills any working orders it triggers */
+  setPrice(uic: number, bid: number, ask?: number): void;
+  /** Fills a working order, or part of it, at the current market price, the legs of a multi-leg order fill together */
+  fillOrder(orderId: string, amount?: number): void;
+  /** Rejects a working order, as an exchange may after accepting it */
+  rejectOrder(orderId: string, message?: string): void;
+  /** Starts listening on localhost and resolves with the url to use as `apiEndpoint` and `authEndpoint` */
+  listen(port?: number): Promise<string>;
+  close(): Promise<void>;
+}
+
+interface MockOrder {
+  OrderId: string;
+  AccountKey: string;
+  Uic: number;
+  AssetType: AssetType;
+  BuySell: "Buy" | "Sell";
+  OrderType: string;
+  Amount: number;
+  OrderPrice?: number;
+  StopLimitPrice?: number;
+  TrailingStopDistanceToMarket?: number;
+  TrailingStopStep?: number;
+  Duration: { DurationType: string; ExpirationDateTime?: string };
+  ExternalReference?: string;
+  IsForceOpen: boolean;
+  OrderTime: string;
+  OrderRelation: string;
+  RelatedOrderIds: string[];
+  /** Entry order an exit order waits for */
+  MasterId?: string;
+  /** Position the order closes */
+  PositionId?: string;
+  FilledAmount: number;
+  AveragePrice?: number;
+  PutCall?: string;
+  Strike?: number;
+  ExpiryDate?: string;
+  ToOpenClose?: string;
+  /** Multi-leg order the order is a leg of, the OrderPrice of each leg is the net price of all legs */
+  MultiLeg?: { MultiLegOrderId: string; BuySell: "Buy" | "Sell"; LegCount: number };
+}
+
+interface MockActivity {
+  LogId: string;
+  OrderId: string;
+  AccountKey: string;
+  Uic: number;
+  AssetType: AssetType;
+  BuySell: string;
+  OrderType: string;
+  Amount: number;
+  Status: "Placed" | "Changed" | "Fill" | "FinalFill" | "Cancelled" | "Rejected";
+  FilledAmount: number;
+  AveragePrice?: number;
+  ExecutionPrice?: number;
+  ErrorInfo?: { ErrorCode: string; Message: string };
+  ActivityTime: string;
+}
+
+interface MockPosition {
+  PositionId: string;
+  AccountKey: string;
+  Uic: number;
+  AssetType: AssetType;
+  Amount: number;
+  OpenPrice: number;
+  SourceOrderId: string;
+  ExecutionTimeOpen: string;
+}
+
+interface MockClosedPosition extends MockPosition {
+  ClosedPositionId: string;
+  ClosingPrice: number;
+  ProfitLoss: number;
+}
+
+/** Saxo rejects a repeated x-request-id within this window */
+const DUPLICATE_WINDOW = 15_000;
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { "Content-Type": "application/json" },
+});
+
+const errorInfo = (status: number, ErrorCode: string, Message: string) => json({ ErrorInfo: { ErrorCode, Message } }, status);
+
+const invalidModel = (ModelState: Record<string, string[]>) => json({
+  ErrorCode: "InvalidModelState",
+  Message: "One or more properties of the request are invalid!",
+  ModelState,
+}, 400);
+
+// Order bodies are TitleCase from the trading methods and camelCase from preCheckOrder
+const field = (body: Any, name: string) => body?.[name] ?? body?.[name[0].toLowerCase() + name.slice(1)];
+
+/**
+ * Creates a stateful stand-in for the Saxo OpenAPI gateway and auth server.
+ * Supports the portfolio reads, instrument lookups, price snapshots and history, order placement, modification, cancellation and pre-checks,
+ * and the order activity log, filling orders against prices set with `setPrice`.
+ */
+export const createMockServer = (options: MockServerOptions = {}): MockServer => {
+  const marginRate = options.marginRate ?? 0.02;
+  const client = options.client ?? { clientId: "9226397", clientKey: "mock-client-key", name: "Mock Client" };
+  const accounts = new Map((options.accounts ?? [
+    { accountId: "9226397/EUR", accountKey: "mock-account-key", currency: "EUR", cash: 100_000 },
+  ]).map(account => [account.accountKey, { ...account }]));
+  const instruments = new Map((options.instruments ?? [
+    { uic: 21, assetType: "FxSpot", symbol: "EURUSD", description: "Euro/US Dollar", bid: 1.1, ask: 1.1002 },
+    { uic: 31, assetType: "FxSpot", symbol: "GBPUSD", description: "British Pound/US Dollar", bid: 1.27, ask: 1.2702 },
+  ]).map(instrument => [instrument.uic, { ...instrument }]));
+
+  const orders = new Map<string, MockOrder>();
+  const positions = new Map<string, MockPosition>();
+  const closedPositions: MockClosedPosition[] = [];
+  const activities: MockActivity[] = [];
+  const tokens = new Set(options.token ? [options.token] : []);
+  const requestIds = new Map<string, number>();
+  const requests: MockRequest[] = [];
+  let sequence = 0;
+  const nextId = (base: number) => String(base + ++sequence);
+
+  // Positions are closed at the opposite side of the spread
+  const currentPrice = (position: MockPosition) => {
+    const instrument = instruments.get(position.Uic)!;
+    return position.Amount > 0 ? instrument.bid : instrument.ask;
+  };
+
+  const profitLoss = (position: MockPosition) => (currentPrice(position) - position.OpenPrice) * position.Amount;
+
+  const accountPositions = (accountKey?: string) => [...positions.values()]
+    .filter(position => !accountKey || position.AccountKey === accountKey);
+
+  const marginUsed = (accountKey: string) => accountPositions(accountKey)
+    .reduce((sum, position) => sum + Math.abs(position.Amount) * currentPrice(position) * marginRate, 0);
+
+  const cashAvailable = (accountKey: string) => accounts.get(accountKey)!.cash
+    + accountPositions(accountKey).reduce((sum, position) => sum + profitLoss(position), 0)
+    - marginUsed(accountKey);
+
+  const record = (order: MockOrder, Status: MockActivity["Status"], details: Partial<MockActivity> = {}) => activities.push({
+    LogId: nextId(8_000_000_000),
+    OrderId: order.OrderId,
+    AccountKey: order.AccountKey,
+    Uic: order.Uic,
+    AssetType: order.AssetType,
+    BuySell: order.BuySell,
+    OrderType: order.OrderType,
+    Amount: order.Amount + order.FilledAmount,
+    Status,
+    FilledAmount: order.FilledAmount,
+    ...order.AveragePrice !== undefined && { AveragePrice: order.AveragePrice },
+    ActivityTime: new Date().toISOString(),
+    ...details,
+  });
+
+  const remove = (order: MockOrder, Status: "Cancelled" | "Rejected", details?: Partial<MockActivity>) => {
+    orders.delete(order.OrderId);
+    record(order, Status, details);
+  };
+
+  // Opposite positions are closed first (FIFO) unless the order forces a new position or closes a given one
+  const fill = (order: MockOrder, price: number, amount = order.Amount) => {
+    // An order closing a position that no longer exists has nothing left to do
+    if (order.PositionId && !positions.has(order.PositionId)) return remove(order, "Cancelled");
+    const final = amount >= order.Amount;
+    if (final) orders.delete(order.OrderId);
+    order.AveragePrice = ((order.AveragePrice ?? 0) * order.FilledAmount + price * amount) / (order.FilledAmount + amount);
+    order.FilledAmount += amount;
+    order.Amount -= amount;
+    record(order, final ? "FinalFill" : "Fill", { ExecutionPrice: price });
+    const direction = order.BuySell === "Buy" ? 1 : -1;
+    let remaining = amount;
+    if (!order.IsForceOpen) {
+      const closing = order.PositionId ? [positions.get(order.PositionId)!] : accountPositions(order.AccountKey);
+      for (const position of closing) {
+        if (remaining === 0) break;
+        if (position.Uic !== order.Uic || position.AssetType !== order.AssetType || Math.sign(position.Amount) === direction) continue;
+        const closed = Math.min(remaining, Math.abs(position.Amount));
+        const amount = closed * Math.sign(position.Amount);
+        const realized = (price - position.OpenPrice) * amount;
+        accounts.get(order.AccountKey)!.cash += realized;
+        closedPositions.push({ ...position, Amount: amount, ClosedPositionId: nextId(7_000_000_000), ClosingPrice: price, ProfitLoss: realized });
+        position.Amount -= amount;
+        if (position.Amount === 0) positions.delete(position.PositionId);
+        remaining -= closed;
+      }
+    }
+    if (remaining > 0) {
+      const PositionId = nextId(6_000_000_000);
+      positions.set(PositionId, {
+        PositionId,
+        AccountKey: order.AccountKey,
+        Uic: order.Uic,
+        AssetType: order.AssetType,
+        Amount: remaining * direction,
+        OpenPrice: price,
+        SourceOrderId: order.OrderId,
+        ExecutionTimeOpen: new Date().toISOString(),
+      });
+    }
+
+    // Exit orders start working once their entry fills, the first exit or OCO order to fill cancels the others
+    if (!final) return;
+    if (order.OrderRelation === "IfDoneMaster") {
+      for (const id of order.RelatedOrderIds) {
+        const exit = orders.get(id);
+        if (exit) match(exit);
+      }
+    } else if (order.OrderRelation === "IfDoneSlave" || order.OrderRelation === "Oco") {
+      for (const id of order.RelatedOrderIds) {
+        const other = orders.get(id);
+        if (other) remove(other, "Cancelled");
+      }
+    }
+  };
+
+  // Fills the order if the market allows it, a triggered stop limit order becomes a limit order
+  const match = (order: MockOrder) => {
+    if (order.MultiLeg) return matchMultiLeg(order.MultiLeg.MultiLegOrderId);
+    if (order.MasterId && orders.has(order.MasterId)) return;
+    const { bid, ask } = instruments.get(order.Uic)!;
+    const buy = order.BuySell === "Buy";
+    const price = buy ? ask : bid;
+    const limitReached = (limit: number) => buy ? price <= limit : price >= limit;
+    const stopTriggered = (stop: number) => buy ? price >= stop : price <= stop;
+
+    if (order.OrderType === "TrailingStopIfTraded" && order.TrailingStopStep) {
+      // The stop follows a favourable market in whole steps
+      const trailed = buy ? price + order.TrailingStopDistanceToMarket! : price - order.TrailingStopDistanceToMarket!;
+      const steps = Math.floor((buy ? order.OrderPrice! - trailed : trailed - order.OrderPrice!) / order.TrailingStopStep);
+      if (steps > 0) order.OrderPrice = order.OrderPrice! + (buy ? -steps : steps) * order.TrailingStopStep;
+    }
+
+    if (order.OrderType === "Market") return fill(order, price);
+    if (order.OrderType === "Limit" && limitReached(order.OrderPrice!)) return fill(order, price);
+    if (["Stop", "TrailingStopIfTraded"].includes(order.OrderType) && stopTriggered(order.OrderPrice!)) return fill(order, price);
+    if (order.OrderType === "StopLimit" && stopTriggered(order.OrderPrice!)) {
+      Object.assign(order, { OrderType: "Limit", OrderPrice: order.StopLimitPrice, StopLimitPrice: undefined });
+      match(order);
+    }
+  };
+
+  const multiLegs = (id: string) => [...orders.values()].filter(order => order.MultiLeg?.MultiLegOrderId === id);
+
+  // Price of the legs in the ratio of their amounts, positive when paid
+  const netPrice = (legs: MockOrder[]) => {
+    const unit = Math.min(...legs.map(leg => leg.Amount));
+    return Number(legs.reduce((sum, leg) => {
+      const { bid, ask } = instruments.get(leg.Uic)!;
+      return sum + (leg.BuySell === "Buy" ? ask : -bid) * leg.Amount / unit;
+    }, 0).toFixed(10));
+  };
+
+  const fillLegs = (legs: MockOrder[]) => {
+    for (const leg of legs) {
+      const { bid, ask } = instruments.get(leg.Uic)!;
+      fill(leg, leg.BuySell === "Buy" ? ask : bid);
+    }
+  };
+
+  // The legs fill together at market once the net price reaches the limit
+  const matchMultiLeg = (id: string) => {
+    const legs = multiLegs(id);
+    if (!legs.length) return;
+    const [{ MultiLeg, OrderType, OrderPrice }] = legs;
+    const net = netPrice(legs);
+    if (OrderType === "Limit" && (MultiLeg!.BuySell === "Buy" ? net > OrderPrice! : -net < OrderPrice!)) return;
+    fillLegs(legs);
+  };
+
+  const validateOrder = (body: Any) => {
+    const modelState: Record<string, string[]> = {};
+    const amount = field(body, "Amount");
+    const orderType = field(body, "OrderType");
+    if (!field(body, "AccountKey")) modelState.AccountKey = ["The AccountKey field is required."];
+    if (typeof field(body, "Uic") !== "number") modelState.Uic = ["The Uic field is required."];
+    if (!["Buy", "Sell"].includes(field(body, "BuySell"))) modelState.BuySell = ["BuySell must be Buy or Sell."];
+    if (!["Market", "Limit", "Stop", "StopLimit", "TrailingStopIfTraded"].includes(orderType)) modelState.OrderType = [`Order type ${orderType} is not supported.`];
+    if (typeof amount !== "number" || amount <= 0) modelState.Amount = ["Amount must be positive."];
+    if (orderType !== "Market" && typeof field(body, "OrderPrice") !== "number") modelState.OrderPrice = ["OrderPrice is required for this order type."];
+    if (orderType === "StopLimit" && typeof field(body, "StopLimitPrice") !== "number") modelState.StopLimitPrice = ["StopLimitPrice is required for stop limit orders."];
+    if (field(field(body, "OrderDuration"), "DurationType") === "GoodTillDate" && !field(field(body, "OrderDuration"), "ExpirationDateTime")) {
+      modelState.OrderDuration = ["ExpirationDateTime is required for GoodTillDate orders."];
+    }
+    if (/^Fx.*Option$/.test(field(body, "AssetType"))) {
+      if (!["Put", "Call"].includes(field(body, "PutCall"))) modelState.PutCall = ["PutCall is required for FX options."];
+      if (typeof field(body, "Strike") !== "number") modelState.Strike = ["Strike is required for FX options."];
+      if (!field(body, "ExpiryDate")) modelState.ExpiryDate = ["ExpiryDate is required for FX options."];
+    }
+    if (field(body, "ToOpenClose") !== undefined && !["ToOpen", "ToClose"].includes(field(body, "ToOpenClose"))) {
+      modelState.ToOpenClose = ["ToOpenClose must be ToOpen or ToClose."];
+    }
+    if (orderType === "TrailingStopIfTraded" && typeof field(body, "TrailingStopDistanceToMarket") !== "number") {
+      modelState.TrailingStopDistanceToMarket = ["TrailingStopDistanceToMarket is required for trailing stop orders."];
+    }
+    if (Object.keys(modelState).length) return invalidModel(modelState);
+
+    if (!accounts.has(field(body, "AccountKey"))) return errorInfo(400, "InvalidAccountKey", "Account key is invalid");
+    const instrument = instruments.get(field(body, "Uic"));
+    if (!instrument || instrument.assetType !== (field(body, "AssetType") ?? instrument.assetType)) {
+      return errorInfo(400, "IllegalInstrumentId", "Instrument ID is invalid");
+    }
+
+    const positionId = field(body, "PositionId");
+    if (positionId !== undefined) {
+      const position = positions.get(positionId);
+      const direction = field(body, "BuySell") === "Buy" ? 1 : -1;
+      if (!position || position.AccountKey !== field(body, "AccountKey") || position.Uic !== instrument.uic || Math.sign(position.Amount) === direction) {
+        return errorInfo(400, "IllegalPositionId", "Position ID is invalid");
+      }
+      if (amount > Math.abs(position.Amount)) return invalidModel({ Amount: ["Amount cannot exceed the amount of the position."] });
+    }
+  };
+
+  // Each leg is an order of the multi-leg order's type and price
+  const legOrders = (body: Any): Any[] => (field(body, "Legs") ?? []).map((leg: Any) => ({
+    ...leg,
+    AccountKey: field(body, "AccountKey"),
+    OrderType: field(body, "OrderType"),
+    OrderPrice: field(body, "OrderPrice"),
+    OrderDuration: field(body, "OrderDuration"),
+  }));
+
+  const validateMultiLegOrder = (body: Any) => {
+    const modelState: Record<string, string[]> = {};
+    const legs = field(body, "Legs");
+    const orderType = field(body, "OrderType");
+    if (!Array.isArray(legs) || legs.length < 2 || legs.length > 4) modelState.Legs = ["A multi-leg order has two to four legs."];
+    if (!["Buy", "Sell"].includes(field(body, "BuySell"))) modelState.BuySell = ["BuySell must be Buy or Sell."];
+    if (!["Market", "Limit"].includes(orderType)) modelState.OrderType = [`Order type ${orderType} is not supported for multi-leg orders.`];
+    if (Object.keys(modelState).length) return invalidModel(modelState);
+    for (const leg of legOrders(body)) {
+      const invalid = validateOrder(leg);
+      if (invalid) return invalid;
+    }
+  };
+
+  const toOrder = (body: Any, OrderId: string): MockOrder => {
+    const instrument = instruments.get(field(body, "Uic"))!;
+    const duration = field(body, "OrderDuration");
+    return {
+      OrderId,
+      AccountKey: field(body, "AccountKey"),
+      Uic: instrument.uic,
+      AssetType: instrument.assetType,
+      BuySell: field(body, "BuySell"),
+      OrderType: field(body, "OrderType"),
+      Amount: field(body, "Amount"),
+      OrderPrice: field(body, "OrderPrice"),
+      StopLimitPrice: field(body, "StopLimitPrice"),
+      TrailingStopDistanceToMarket: field(body, "TrailingStopDistanceToMarket"),
+      TrailingStopStep: field(body, "TrailingStopStep"),
+      Duration: {
+        DurationType: field(duration, "DurationType") ?? (field(body, "OrderType") === "Market" ? "FillOrKill" : "GoodTillCancel"),
+        ...field(duration, "ExpirationDateTime") && { ExpirationDateTime: field(duration, "ExpirationDateTime") },
+      },
+      ExternalReference: field(body, "ExternalReference"),
+      IsForceOpen: field(body, "IsForceOpen") ?? false,
+      PositionId: field(body, "PositionId"),
+      PutCall: field(body, "PutCall"),
+      Strike: field(body, "Strike"),
+      ExpiryDate: field(body, "ExpiryDate"),
+      ToOpenClose: field(body, "ToOpenClose"),
+      OrderTime: new Date().toISOString(),
+      OrderRelation: "StandAlone",
+      RelatedOrderIds: [],
+      FilledAmount: 0,
+    };
+  };
+
+  // Only the part of an order that opens a new position reserves margin
+  const cashRequired = (order: MockOrder) => {
+    const instrument = instruments.get(order.Uic)!;
+    const direction = order.BuySell === "Buy" ? 1 : -1;
+    const offset = order.IsForceOpen ? 0 : accountPositions(order.AccountKey)
+      .filter(position => position.Uic === order.Uic && Math.sign(position.Amount) === -direction)
+      .reduce((sum, position) => sum + Math.abs(position.Amount), 0);
+    const price = order.OrderPrice ?? (direction > 0 ? instrument.ask : instrument.bid);
+    return Math.max(order.Amount - offset, 0) * price * marginRate;
+  };
+
+  const serializeRelatedOrder = (order: MockOrder) => ({
+    OrderId: order.OrderId,
+    OpenOrderType: order.OrderType,
+    OrderPrice: order.OrderPrice,
+    Amount: order.Amount,
+    Duration: order.Duration,
+    Status: "Working",
+    ...order.TrailingStopDistanceToMarket !== undefined && {
+      TrailingStopDistanceToMarket: order.TrailingStopDistanceToMarket,
+      TrailingStopStep: order.TrailingStopStep,
+    },
+  });
+
+  const serializeOrder = (order: MockOrder) => {
+    const account = accounts.get(order.AccountKey)!;
+    const related = order.RelatedOrderIds.filter(id => orders.has(id)).map(id => serializeRelatedOrder(orders.get(id)!));
+    return {
+      OrderId: order.OrderId,
+      OrderTime: order.OrderTime,
+      Uic: order.Uic,
+      AssetType: order.AssetType,
+      BuySell: order.BuySell,
+      OpenOrderType: order.OrderType,
+      // An OCO order whose partner was cancelled works on its own
+      OrderRelation: order.OrderRelation === "Oco" && !related.length ? "StandAlone" : order.OrderRelation,
+      ...related.length && { RelatedOpenOrders: related },
+      Status: "Working",
+      Amount: order.Amount,
+      ...order.FilledAmount && { FilledAmount: order.FilledAmount },
+      ...order.OrderPrice !== undefined && { Price: order.OrderPrice },
+      ...order.StopLimitPrice !== undefined && { StopLimitPrice: order.StopLimitPrice },
+      ...order.TrailingStopDistanceToMarket !== undefined && {
+        TrailingStopDistanceToMarket: order.TrailingStopDistanceToMarket,
+        TrailingStopStep: order.TrailingStopStep,
+      },
+      Duration: order.Duration,
+      ...order.ExternalReference && { ExternalReference: order.ExternalReference },
+      ...order.PositionId && { RelatedPositionId: order.PositionId },
+      ...order.PutCall && { PutCall: order.PutCall, Strike: order.Strike, ExpiryDate: order.ExpiryDate },
+      ...order.ToOpenClose && { ToOpenClose: order.ToOpenClose },
+      ...order.MultiLeg && { MultiLegOrderDetails: { ...order.MultiLeg } },
+      ClientId: client.clientId,
+      ClientKey: client.clientKey,
+      AccountId: account.accountId,
+      AccountKey: account.accountKey,
+      MarketPrice: order.BuySell === "Buy" ? instruments.get(order.Uic)!.ask : instruments.get(order.Uic)!.bid,
+    };
+  };
+
+  const serializePosition = (position: MockPosition) => {
+    const account = accounts.get(position.AccountKey)!;
+    return {
+      PositionId: position.PositionId,
+      NetPositionId: `${position.Uic}__${position.AssetType}`,
+      PositionBase: {
+        AccountId: account.accountId,
+        AccountKey: account.accountKey,
+        Amount: position.Amount,
+        AssetType: position.AssetType,
+        CanBeClosed: true,
+        ClientId: client.clientId,
+        ExecutionTimeOpen: position.ExecutionTimeOpen,
+        OpenPrice: position.OpenPrice,
+        SourceOrderId: position.SourceOrderId,
+        Status: "Open",
+        Uic: position.Uic,
+      },
+      PositionView: {
+        CurrentPrice: currentPrice(position),
+        ExposureCurrency: account.currency,
+        ProfitLossOnTrade: profitLoss(position),
+      },
+    };
+  };
+
+  const serializeNetPositions = (accountKey?: string) => {
+    const groups = new Map<string, MockPosition[]>();
+    for (const position of accountPositions(accountKey)) {
+      const id = `${position.AccountKey}:${position.Uic}__${position.AssetType}`;
+      groups.set(id, [...groups.get(id) ?? [], position]);
+    }
+    return [...groups.values()].map(group => {
+      const [first] = group;
+      const account = accounts.get(first.AccountKey)!;
+      const amount = group.reduce((sum, position) => sum + position.Amount, 0);
+      const cost = group.reduce((sum, position) => sum + position.Amount * position.OpenPrice, 0);
+      return {
+        NetPositionId: `${first.Uic}__${first.AssetType}`,
+        NetPositionBase: {
+          AccountId: account.accountId,
+          Amount: amount,
+          AssetType: first.AssetType,
+          AverageOpenPrice: amount ? cost / amount : 0,
+          PositionsCount: group.length,
+          Status: "Open",
+          Uic: first.Uic,
+        },
+        NetPositionView: {
+          CurrentPrice: currentPrice(first),
+          ExposureCurrency: account.currency,
+          MarketValue: amount * currentPrice(first),
+          ProfitLossOnTrade: group.reduce((sum, position) => sum + profitLoss(position), 0),
+        },
+      };
+    });
+  };
+
+  const serializeClosedPosition = (position: MockClosedPosition) => {
+    const account = accounts.get(position.AccountKey)!;
+    return {
+      ClosedPositionId: position.ClosedPositionId,
+      PositionBase: {
+        AccountId: account.accountId,
+        Amount: position.Amount,
+        AssetType: position.AssetType,
+        ClosingPrice: position.ClosingPrice,
+        OpenPrice: position.OpenPrice,
+        SourceOrderId: position.SourceOrderId,
+        Uic: position.Uic,
+      },
+      PositionView: {
+        ExposureCurrency: account.currency,
+        ProfitLoss: position.ProfitLoss,
+      },
+    };
+  };
+
+  const serializeBalance = (accountKey: string) => {
+    const account = accounts.get(accountKey)!;
+    const unrealized = accountPositions(accountKey).reduce((sum, position) => sum + profitLoss(position), 0);
+    return {
+      CashBalance: account.cash,
+      CashAvailableForTrading: cashAvailable(accountKey),
+      Currency: account.currency,
+      MarginAvailableForTrading: cashAvailable(accountKey),
+      MarginUsedByCurrentPositions: marginUsed(accountKey),
+      OpenPositionsCount: accountPositions(accountKey).length,
+      OrdersCount: [...orders.values()].filter(order => order.AccountKey === accountKey).length,
+      TotalValue: account.cash + unrealized,
+      UnrealizedPositionsValue: unrealized,
+    };
+  };
+
+  const list = <T>(items: T[]) => json({ __count: items.length, Data: items });
+
+  // Only the requested expiry dates list their contracts, the nearest one by default
+  const serializeOptionSpace = (rootId: number, query: URLSearchParams) => {
+    const contracts = [...instruments.values()].filter(instrument => instrument.optionRootId === rootId);
+    if (!contracts.length) return errorInfo(404, "IllegalInstrumentId", "Option root not found");
+    const expiries = [...new Set(contracts.map(contract => contract.expiryDate!))].sort();
+    const segment = query.get("OptionSpaceSegment") ?? "DefaultDates";
+    const listed = segment === "AllDates" ? expiries
+      : segment === "SpecificDates" ? query.get("ExpiryDates")?.split(",") ?? []
+        : expiries.slice(0, 1);
+    return json({
+      OptionRootId: rootId,
+      AssetType: contracts[0].assetType,
+      OptionSpace: expiries.map(expiry => ({
+        Expiry: expiry,
+        DisplayExpiry: expiry,
+        ...listed.includes(expiry) && {
+          SpecificOptions: contracts.filter(contract => contract.expiryDate === expiry).map(contract => ({
+            Uic: contract.uic,
+            PutCall: contract.putCall,
+            StrikePrice: contract.strike,
+            TradingStatus: "Tradable",
+          })),
+        },
+      })),
+    });
+  };
+
+  const serializeInstrument = (instrument: MockInstrument) => ({
+    Identifier: instrument.uic,
+    AssetType: instrument.assetType,
+    Symbol: instrument.symbol,
+    Description: instrument.description ?? instrument.symbol,
+    CurrencyCode: instrument.currency ?? instrument.symbol.slice(3),
+    ExchangeId: instrument.exchangeId ?? "SBFX",
+  });
+
+  const serializePrice = (instrument: MockInstrument, fieldGroups: string[]) => {
+    const mid = (instrument.bid + instrument.ask) / 2;
+    return {
+      Uic: instrument.uic,
+      AssetType: instrument.assetType,
+      LastUpdated: new Date().toISOString(),
+      ...fieldGroups.includes("Quote") && {
+        Quote: { Bid: instrument.bid, Ask: instrument.ask, Mid: mid, DelayedByMinutes: 0, MarketState: "Open" },
+      },
+      ...fieldGroups.includes("PriceInfoDetails") && { PriceInfoDetails: { LastTraded: mid } },
+    };
+  };
+
+  // A deterministic history swinging around the current price, with one candle per horizon up to now
+  const serializeCandles = (instrument: MockInstrument, query: URLSearchParams) => {
+    const horizon = Number(query.get("Horizon")) * 60_000;
+    const count = Number(query.get("Count") ?? 1200);
+    const time = Date.parse(query.get("Time") ?? new Date().toISOString());
+    const last = Math.floor(Date.now() / horizon);
+    const first = query.get("Mode") === "From" ? Math.ceil(time / horizon) : Math.min(Math.floor(time / horizon), last) - count + 1;
+    const spread = instrument.ask - instrument.bid;
+    const price = (index: number) => (instrument.bid + instrument.ask) / 2 * (1 + Math.sin(index) / 1000);
+
+    const candles = [];
+    for (let index = first; index <= Math.min(last, first + count - 1); index++) {
+      const [open, close] = [price(index), price(index + 1)];
+      const [high, low] = [Math.max(open, close) * 1.0001, Math.min(open, close) * 0.9999];
+      const Time = new Date(index * horizon).toISOString();
+      if (instrument.assetType.startsWith("Fx")) {
+        const side = (suffix: string, offset: number) => ({
+          [`Open${suffix}`]: open + offset, [`High${suffix}`]: high + offset, [`Low${suffix}`]: low + offset, [`Close${suffix}`]: close + offset,
+        });
+        candles.push({ Time, ...side("Bid", -spread / 2), ...side("Ask", spread / 2) });
+      } else {
+        candles.push({ Time, Open: open, High: high, Low: low, Close: close, Volume: 1000 + Math.abs(index % 100) });
+      }
+    }
+    return candles;
+  };
+
+  // The mock only fills the order types it matches
+  const serializeInstrumentDetails = (instrument: MockInstrument) => {
+    const { Identifier, ExchangeId, ...summary } = serializeInstrument(instrument);
+    return {
+      Uic: Identifier,
+      ...summary,
+      Exchange: { ExchangeId },
+      TickSize: 0.00001,
+      LotSize: 1,
+      MinimumTradeSize: 1000,
+      SupportedOrderTypes: ["Market", "Limit", "Stop", "StopLimit", "TrailingStopIfTraded"],
+      SupportedOrderTypeSettings: [
+        { OrderType: "Market", DurationTypes: ["DayOrder", "FillOrKill", "ImmediateOrCancel"] },
+        ...["Limit", "Stop", "StopLimit", "TrailingStopIfTraded"].map(OrderType => ({ OrderType, DurationTypes: ["DayOrder", "GoodTillCancel", "GoodTillDate"] })),
+      ],
+    };
+  };
+
+  const checkRequestId = (request: Request) => {
+    const requestId = request.headers.get("x-request-id");
+    if (!requestId) return;
+    const seen = requestIds.get(requestId);
+    if (seen !== undefined && Date.now() - seen < DUPLICATE_WINDOW) return errorInfo(409, "DuplicateOperation", "Duplicate operation");
+    requestIds.set(requestId, Date.now());
+  };
+
+  const placeOrder = (request: Request, body: Any) => {
+    const exits: Any[] = field(body, "Orders") ?? [];
+    // An OCO pair is sent as its two orders without an entry order
+    const oco = field(body, "Uic") === undefined && exits.length > 0;
+    for (const order of oco ? exits : [body, ...exits]) {
+      const invalid = validateOrder(order);
+      if (invalid) return invalid;
+    }
+
+    const duplicate = checkRequestId(request);
+    if (duplicate) return duplicate;
+
+    if (oco) return placeOcoOrders(exits);
+
+    const order = toOrder(body, nextId(5_000_000_000));
+    if (cashRequired(order) > cashAvailable(order.AccountKey)) {
+      return errorInfo(400, "InsufficientFunds", "Insufficient funds for this order.");
+    }
+    // Exit orders attached to an entry wait for it, and cancel each other once one fills
+    const related = exits.map(exit => ({ ...toOrder(exit, nextId(5_000_000_000)), OrderRelation: "IfDoneSlave", MasterId: order.OrderId }));
+    if (related.length) Object.assign(order, { OrderRelation: "IfDoneMaster", RelatedOrderIds: related.map(exit => exit.OrderId) });
+    for (const exit of related) exit.RelatedOrderIds = [order.OrderId, ...related.filter(other => other !== exit).map(other => other.OrderId)];
+
+    for (const added of [order, ...related]) {
+      orders.set(added.OrderId, added);
+      record(added, "Placed");
+    }
+    match(order);
+    return json({ OrderId: order.OrderId, ...related.length && { Orders: related.map(({ OrderId }) => ({ OrderId })) } });
+  };
+
+  const placeOcoOrders = (bodies: Any[]) => {
+    const pair = bodies.map(body => ({ ...toOrder(body, nextId(5_000_000_000)), OrderRelation: "Oco" }));
+    if (pair.some(order => cashRequired(order) > cashAvailable(order.AccountKey))) {
+      return errorInfo(400, "InsufficientFunds", "Insufficient funds for this order.");
+    }
+    for (const order of pair) {
+      order.RelatedOrderIds = pair.filter(other => other !== order).map(other => other.OrderId);
+      orders.set(order.OrderId, order);
+      record(order, "Placed");
+    }
+    // The first order may fill at once and cancel the second
+    for (const order of pair) {
+      if (orders.has(order.OrderId)) match(order);
+    }
+    return json({ Orders: pair.map(({ OrderId }) => ({ OrderId })) });
+  };
+
+  // Margin of the legs at market, the net price does not apply to any single leg
+  const legsCashRequired = (legs: MockOrder[]) => legs.reduce((sum, leg) => sum + cashRequired({ ...leg, OrderPrice: undefined }), 0);
+
+  const placeMultiLegOrder = (request: Request, body: Any) => {
+    const invalid = validateMultiLegOrder(body);
+    if (invalid) return invalid;
+    const duplicate = checkRequestId(request);
+    if (duplicate) return duplicate;
+
+    const legs = legOrders(body).map(leg => toOrder(leg, nextId(5_000_000_000)));
+    if (legsCashRequired(legs) > cashAvailable(field(body, "AccountKey"))) {
+      return errorInfo(400, "InsufficientFunds", "Insufficient funds for this order.");
+    }
+    const MultiLeg = { MultiLegOrderId: nextId(9_000_000_000), BuySell: field(body, "BuySell"), LegCount: legs.length };
+    for (const leg of legs) {
+      leg.MultiLeg = MultiLeg;
+      orders.set(leg.OrderId, leg);
+      record(leg, "Placed");
+    }
+    matchMultiLeg(MultiLeg.MultiLegOrderId);
+    return json({ MultiLegOrderId: MultiLeg.MultiLegOrderId, Orders: legs.map(({ OrderId }) => ({ OrderId })) });
+  };
+
+  const preCheckResult = (accountKey: string, required: number) => {
+    const currency = accounts.get(accountKey)!.currency;
+    if (required > cashAvailable(accountKey)) {
+      return json({
+        PreCheckResult: "Error",
+        ErrorInfo: { ErrorCode: "InsufficientFunds", Message: "Insufficient funds for this order." },
+      });
+    }
+    return json({
+      PreCheckResult: "Ok",
+      EstimatedCashRequired: required,
+      EstimatedCashRequiredCurrency: currency,
+      MarginImpact: { InitialMargin: required, MaintenanceMargin: required / 2, Currency: currency },
+    });
+  };
+
+  const preCheck = (body: Any) => {
+    const invalid = validateOrder(body);
+    if (invalid) return invalid;
+    return preCheckResult(field(body, "AccountKey"), cashRequired(toOrder(body, "")));
+  };
+
+  const preCheckMultiLeg = (body: Any) => {
+    const invalid = validateMultiLegOrder(body);
+    if (invalid) return invalid;
+    return preCheckResult(field(body, "AccountKey"), legsCashRequired(legOrders(body).map(leg => toOrder(leg, ""))));
+  };
+
+  // Orders attached to the order are modified along with it in the same request
+  const modifyOrder = (body: Any) => {
+    const legs: Any[] = field(body, "Orders") ?? [];
+    const updates: MockOrder[] = [];
+    for (const change of [body, ...legs]) {
+      const order = orders.get(field(change, "OrderId"));
+      if (!order || order.AccountKey !== field(change, "AccountKey")) return errorInfo(404, "OrderNotFound", "Order not found");
+      if (order.MultiLeg) return errorInfo(400, "InvalidRequest", "Legs of a multi-leg order cannot be modified on their own");
+      if (change !== body && !order.RelatedOrderIds.includes(field(body, "OrderId"))) {
+        return errorInfo(400, "InvalidRelatedOrder", "Order is not related to the modified order");
+      }
+
+      const updated = { ...order };
+      for (const name of ["OrderType", "Amount", "OrderPrice", "StopLimitPrice", "TrailingStopDistanceToMarket", "TrailingStopStep"] as const) {
+        if (field(change, name) !== undefined) Object.assign(updated, { [name]: field(change, name) });
+      }
+      const duration = field(change, "OrderDuration");
+      if (field(duration, "DurationType")) {
+        updated.Duration = {
+          DurationType: field(duration, "DurationType"),
+          ...field(duration, "ExpirationDateTime") && { ExpirationDateTime: field(duration, "ExpirationDateTime") },
+        };
+      }
+
+      const invalid = validateOrder({ ...updated, OrderDuration: updated.Duration });
+      if (invalid) return invalid;
+      updates.push(updated);
+    }
+
+    for (const updated of updates) {
+      orders.set(updated.OrderId, updated);
+      record(updated, "Changed");
+    }
+    for (const updated of updates) {
+      if (orders.has(updated.OrderId)) match(updated);
+    }
+    return json({ OrderId: field(body, "OrderId"), ...legs.length && { Orders: legs.map(leg => ({ OrderId: field(leg, "OrderId") })) } });
+  };
+
+  const cancelOrders = (ids: string[], accountKey: string | null) => {
+    const found = ids.filter(id => orders.get(id)?.AccountKey === accountKey);
+    if (!found.length) return errorInfo(404, "OrderNotFound", "Order not found");
+    // Cancelling an entry order also cancels its exit orders, and cancelling a leg the other legs
+    for (const id of [...found]) {
+      const { OrderRelation, RelatedOrderIds, MultiLeg } = orders.get(id)!;
+      const linked = OrderRelation === "IfDoneMaster" ? RelatedOrderIds.filter(exit => orders.has(exit))
+        : MultiLeg ? multiLegs(MultiLeg.MultiLegOrderId).map(leg => leg.OrderId) : [];
+      found.push(...linked.filter(other => !found.includes(other)));
+    }
+    for (const id of found) remove(orders.get(id)!, "Cancelled");
+    return json({ Orders: found.map(OrderId => ({ OrderId })) });
+  };
+
+  const issueToken = () => {
+    const access_token = `mock-access-token-${nextId(0)}`;
+    tokens.add(access_token);
+    return json({
+      access_token,
+      token_type: "Bearer",
+      expires_in: 1200,
+      refresh_token: `mock-refresh-token-${sequence}`,
+      refresh_token_expires_in: 3600,
+    });
+  };
+
+  const handle = (request: Request, path: string, query: URLSearchParams, body: Any): Response => {
+    const { method } = request;
+    const accountKey = query.get("AccountKey") ?? undefined;
+
+    if (method === "POST" && path === "/token") return issueToken();
+
+    const token = request.headers.get("authorization")?.replace(/^Bearer /, "");
+    if (!token || (options.token && !tokens.has(token))) return new Response(null, { status: 401, statusText: "Unauthorized" });
+
+    if (accountKey && !accounts.has(accountKey)) return errorInfo(400, "InvalidAccountKey", "Account key is invalid");
+
+    if (method === "GET") {
+      if (path === "/port/v1/clients/me") {
+        return json({ ClientId: client.clientId, ClientKey: client.clientKey, Name: client.name, DefaultAccountKey: accounts.keys().next().value });
+      }
+      if (path === "/port/v1/accounts/me") {
+        return list([...accounts.values()].map(account => ({
+          AccountId: account.accountId,
+          AccountKey: account.accountKey,
+          Active: true,
+          ClientId: client.clientId,
+          ClientKey: client.clientKey,
+          Currency: account.currency,
+        })));
+      }
+      if (path === "/port/v1/balances" || path === "/port/v1/balances/me") {
+        return json(serializeBalance(accountKey ?? accounts.keys().next().value!));
+      }
+      if (path === "/port/v1/positions" || path === "/port/v1/positions/me") return list(accountPositions(accountKey).map(serializePosition));
+      if (path === "/port/v1/netpositions" || path === "/port/v1/netpositions/me") return list(serializeNetPositions(accountKey));
+      if (path === "/port/v1/closedpositions" || path === "/port/v1/closedpositions/me") {
+        return list(closedPositions.filter(position => !accountKey || position.AccountKey === accountKey).map(serializeClosedPosition));
+      }
+      if (path === "/port/v1/orders" || path === "/port/v1/orders/me") {
+        return list([...orders.values()].filter(order => !accountKey || order.AccountKey === accountKey).map(serializeOrder));
+      }
+      const single = path.match(/^\/port\/v1\/orders\/([^/]+)\/([^/]+)$/);
+      if (single && single[1] === client.clientKey && orders.has(single[2])) return json(serializeOrder(orders.get(single[2])!));
+      if (path === "/ref/v1/instruments") {
+        const keywords = query.get("Keywords")?.toLowerCase();
+        const assetTypes = query.get("AssetTypes")?.split(",");
+        return list([...instruments.values()]
+          .map(serializeInstrument)
+          .filter(instrument => !keywords || `${instrument.Symbol} ${instrument.Description}`.toLowerCase().includes(keywords))
+          .filter(instrument => !assetTypes || assetTypes.includes(instrument.AssetType))
+          .filter(instrument => !query.has("ExchangeId") || instrument.ExchangeId === query.get("ExchangeId")));
+      }
+      if (path === "/trade/v1/infoprices" || path === "/trade/v1/infoprices/list") {
+        const uics = (query.get("Uics") ?? query.get("Uic") ?? "").split(",").map(Number);
+        const fieldGroups = query.get("FieldGroups")?.split(",") ?? ["Quote"];
+        const prices = uics.map(uic => instruments.get(uic))
+          .filter(instrument => instrument?.assetType === query.get("AssetType"))
+          .map(instrument => serializePrice(instrument!, fieldGroups));
+        if (path === "/trade/v1/infoprices/list") return list(prices);
+        return prices.length ? json(prices[0]) : errorInfo(404, "IllegalInstrumentId", "Instrument not found");
+      }
+      if (path === "/chart/v1/charts" || path === "/chart/v3/charts") {
+        const instrument = instruments.get(Number(query.get("Uic")));
+        if (!instrument || instrument.assetType !== query.get("AssetType")) return errorInfo(404, "IllegalInstrumentId", "Instrument not found");
+        return json({ Data: serializeCandles(instrument, query), DataVersion: 1 });
+      }
+      const optionSpace = path.match(/^\/ref\/v1\/instruments\/contractoptionspaces\/(\d+)$/);
+      if (optionSpace) return serializeOptionSpace(Number(optionSpace[1]), query);
+      const details = path.match(/^\/ref\/v1\/instruments\/details\/(\d+)\/(\w+)$/);
+      if (details) {
+        const instrument = instruments.get(Number(details[1]));
+        if (!instrument || instrument.assetType !== details[2]) return errorInfo(404, "IllegalInstrumentId", "Instrument not found");
+        return json(serializeInstrumentDetails(instrument));
+      }
+      if (path === "/cs/v1/audit/orderactivities") {
+        return list(activities
+          .filter(activity => !accountKey || activity.AccountKey === accountKey)
+          .filter(activity => !query.has("OrderId") || activity.OrderId === query.get("OrderId")));
+      }
+      if (path === "/port/v1/exposure" || path === "/port/v1/exposure/me") {
+        return json(serializeNetPositions(accountKey).map(({ NetPositionBase }) => ({
+          Uic: NetPositionBase.Uic,
+          AssetType: NetPositionBase.AssetType,
+          Amount: NetPositionBase.Amount,
+          AverageOpenPrice: NetPositionBase.AverageOpenPrice,
+        })));
+      }
+    }
+
+    if (method === "POST" && path === "/trade/v2/orders") return placeOrder(request, body);
+    if (method === "POST" && path === "/trade/v2/orders/precheck") return preCheck(body);
+    if (method === "POST" && path === "/trade/v2/orders/multileg") return placeMultiLegOrder(request, body);
+    if (method === "POST" && path === "/trade/v2/orders/multileg/precheck") return preCheckMultiLeg(body);
+    if (method === "PATCH" && path === "/trade/v2/orders") return modifyOrder(body);
+    if (method === "DELETE" && path === "/trade/v2/orders") {
+      const ids = [...orders.values()]
+        .filter(order => order.AccountKey === accountKey && String(order.Uic) === query.get("Uic") && order.AssetType === query.get("AssetType"))
+        .map(order => order.OrderId);
+      for (const id of ids) remove(orders.get(id)!, "Cancelled");
+      return json({ Orders: ids.map(OrderId => ({ OrderId })) });
+    }
+    const multiLeg = path.match(/^\/trade\/v2\/orders\/multileg\/([^/]+)$/);
+    if (method === "DELETE" && multiLeg) {
+      const legs = multiLegs(multiLeg[1]).filter(leg => leg.AccountKey === accountKey);
+      if (!legs.length) return errorInfo(404, "OrderNotFound", "Order not found");
+      for (const leg of legs) remove(leg, "Cancelled");
+      return json({ MultiLegOrderId: multiLeg[1], Orders: legs.map(({ OrderId }) => ({ OrderId })) });
+    }
+    const cancel = path.match(/^\/trade\/v2\/orders\/([^/]+)$/);
+    if (method === "DELETE" && cancel) return cancelOrders(decodeURIComponent(cancel[1]).split(","), query.get("AccountKey"));
+
+    return errorInfo(404, "NotFound", `No route for ${method} ${path}`);
+  };
+
+  // Token requests are form encoded as OAuth requires, everything else is JSON
+  const parseBody = (text: string, contentType: string | null) => !text ? undefined
+    : contentType?.startsWith("application/x-www-form-urlencoded") ? Object.fromEntries(new URLSearchParams(text))
+      : JSON.parse(text);
+
+  const fetch: Fetch = async (request) => {
+    const url = new URL(request.url);
+    let body: Any;
+    try {
+      body = parseBody(await request.text(), request.headers.get("content-type"));
+    } catch {
+      return errorInfo(400, "InvalidRequest", "Request body could not be parsed");
+    }
+    // Accept both a bare base url and one ending in the gateway's /openapi prefix
+    const path = url.pathname.replace(/^\/(sim\/)?openapi/, "").replace(/\/$/, "");
+    requests.push({ method: request.method, path, body });
+    return handle(request, path, url.searchParams, body);
+  };
+
+  const setPrice = (uic: number, bid: number, ask = bid) => {
+    const instrument = instruments.get(uic);
+    if (!instrument) throw new Error(`Unknown instrument ${uic}`);
+    Object.assign(instrument, { bid, ask });
+    for (const order of [...orders.values()]) {
+      if (order.Uic === uic) match(order);
+    }
+  };
+
+  const working = (orderId: string) => {
+    const order = orders.get(orderId);
+    if (!order) throw new Error(`Unknown order ${orderId}`);
+    return order;
+  };
+
+  const fillOrder = (orderId: string, amount?: number) => {
+    const order = working(orderId);
+    if (order.MultiLeg) return fillLegs(multiLegs(order.MultiLeg.MultiLegOrderId));
+    const { bid, ask } = instruments.get(order.Uic)!;
+    fill(order, order.BuySell === "Buy" ? ask : bid, Math.min(amount ?? order.Amount, order.Amount));
+  };
+
+  // Exit orders waiting for a rejected entry order can never work
+  const rejectOrder = (orderId: string, message = "Order rejected") => {
+    const order = working(orderId);
+    remove(order, "Rejected", { ErrorInfo: { ErrorCode: "OrderRejected", Message: message } });
+    if (order.OrderRelation === "IfDoneMaster") {
+      for (const id of order.RelatedOrderIds) {
+        const exit = orders.get(id);
+        if (exit) remove(exit, "Cancelled");
+      }
+    }
+  };
+
+  let close = async () => {};
+
+  // node:http is only loaded when the mock is served over the network
+  const listen = async (port = 0) => {
+    const { createServer } = await import("node:http");
+    const server = createServer(async (req, res) => {
+      // A rejected handler would go unhandled and end the process, so every failure is answered instead
+      let response: Response;
+      try {
+        const chunks: Uint8Array[] = [];
+        for await (const chunk of req) chunks.push(chunk);
+        const headers = new Headers();
+        for (const [name, value] of Object.entries(req.headers)) {
+          if (typeof value === "string") headers.set(name, value);
+        }
+        response = await fetch(new Request(`http://${req.headers.host}${req.url}`, {
+          method: req.method,
+          headers,
+          body: ["GET", "HEAD"].includes(req.method ?? "GET") ? undefined : Buffer.concat(chunks),
+        }));
+      } catch (error) {
+        response = errorInfo(400, "InvalidRequest", error instanceof Error ? error.message : String(error));
+      }
+      res.writeHead(response.status, response.statusText || undefined, Object.fromEntries(response.headers));
+      res.end(Buffer.from(await response.arrayBuffer()));
+    });
+    await new Promise<void>(resolve => server.listen(port, "127.0.0.1", resolve));
+    close = () => new Promise<void>(resolve => server.close(() => resolve()));
+    const address = server.address();
+    return `http://127.0.0.1:${typeof address === "object" && address ? address.port : port}`;
+  };
+
+  return {
+    fetch,
+    requests,
+    setPrice,
+    fillOrder,
+    rejectOrder,
+    listen,
+    close: () => close(),
+  };
+};
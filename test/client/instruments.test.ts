@@ -0,0 +1,44 @@
+import { describe, test, expect, beforeAll } from "vitest";
+import { validateTestEnvironment, createTestClient, TEST_UIC, TEST_ASSET_TYPE } from "../utils.js";
+import type { Client } from "../../src/index.js";
+
+/**
+ * Instrument reference data tests
+ * Validates instrument search and detail lookups
+ */
+describe("Instruments", () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    validateTestEnvironment();
+    const testSetup = await createTestClient();
+    client = testSetup.client;
+  });
+
+  test("should find EURUSD by keyword", async () => {
+    const instruments = await client.searchInstruments({ keywords: "EURUSD", assetTypes: [TEST_ASSET_TYPE] });
+
+    const eurusd = instruments.find(instrument => instrument.symbol === "EURUSD");
+    expect(eurusd).toMatchObject({ uic: TEST_UIC, assetType: TEST_ASSET_TYPE, currency: "USD" });
+    expect(typeof eurusd?.description).toBe("string");
+    expect(instruments.every(instrument => instrument.assetType === TEST_ASSET_TYPE)).toBe(true);
+  });
+
+  test("should return no instruments for an unknown keyword", async () => {
+    expect(await client.searchInstruments({ keywords: "NOSUCHINSTRUMENTXYZ" })).toEqual([]);
+  });
+
+  test("should get the trading conditions of an instrument", async () => {
+    const instrument = await client.getInstrumentDetails(TEST_UIC, TEST_ASSET_TYPE);
+
+    expect(instrument).toMatchObject({ uic: TEST_UIC, assetType: TEST_ASSET_TYPE, symbol: "EURUSD", currency: "USD" });
+    expect(instrument.tickSize).toBeGreaterThan(0);
+    expect(instrument.minAmount).toBeGreaterThan(0);
+    expect(instrument.orderTypes).toEqual(expect.arrayContaining(["Market", "Limit"]));
+    expect(instrument.durations).toContain("GoodTillCancel");
+  });
+
+  test("should reject unknown instruments", async () => {
+    await expect(client.getInstrumentDetails(999999999, TEST_ASSET_TYPE)).rejects.toThrow();
+  });
+});
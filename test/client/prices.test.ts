@@ -0,0 +1,52 @@
+import { describe, test, expect, beforeAll } from "vitest";
+import { validateTestEnvironment, createTestClient, TEST_UIC, TEST_ASSET_TYPE } from "../utils.js";
+import type { Client } from "../../src/index.js";
+
+/**
+ * Price data tests
+ * Validates quotes read through InfoPrices and chart history
+ */
+describe("Prices", () => {
+  let client: Client;
+
+  beforeAll(async () => {
+    validateTestEnvironment();
+    const testSetup = await createTestClient();
+    client = testSetup.client;
+  });
+
+  test("should get the current quote of an instrument", async () => {
+    const quote = await client.getQuote(TEST_UIC, TEST_ASSET_TYPE);
+
+    expect(quote).toMatchObject({ uic: TEST_UIC, assetType: TEST_ASSET_TYPE });
+    expect(quote.bid).toBeGreaterThan(0);
+    expect(quote.ask).toBeGreaterThanOrEqual(quote.bid);
+    expect(quote.mid).toBeCloseTo((quote.bid + quote.ask) / 2, 4);
+    expect(quote.time).toBeInstanceOf(Date);
+    expect(typeof quote.delayed).toBe("boolean");
+
+    console.log(`EURUSD: ${quote.bid} / ${quote.ask} (${quote.marketState})`);
+  });
+
+  test("should get quotes of several instruments", async () => {
+    const quotes = await client.getQuotes([TEST_UIC, 31], TEST_ASSET_TYPE);
+
+    expect(quotes.map(quote => quote.uic).sort()).toEqual([TEST_UIC, 31]);
+    expect(quotes.every(quote => quote.bid > 0 && quote.ask > 0)).toBe(true);
+  });
+
+  test("should include the requested field groups", async () => {
+    const quote = await client.getQuote(TEST_UIC, TEST_ASSET_TYPE, ["Quote", "PriceInfoDetails"]);
+
+    expect(quote.bid).toBeGreaterThan(0);
+    expect(quote).toHaveProperty("last");
+  });
+
+  test("should get the latest candles in ascending order", async () => {
+    const candles = await client.getCandles({ uic: TEST_UIC, assetType: TEST_ASSET_TYPE, horizon: 60, count: 24 });
+
+    expect(candles).toHaveLength(24);
+    expect(candles.every((candle, i) => i === 0 || candle.time > candles[i - 1].time)).toBe(true);
+    expect(candles.every(candle => candle.high >= candle.low && candle.bid && candle.ask)).toBe(true);
+  });
+});
@@ -59,7 +59,7 @@ describe("Trading Operations", () => {
         const modifiedOrder = await account.modifyOrder(order.id, modifiedPrice);
         console.log("Modified order:", modifiedOrder);
         expect(modifiedOrder).toBeDefined();
-        expect(modifiedOrder).toHaveProperty('OrderId', order.id);
+        expect(modifiedOrder).toHaveProperty('id', order.id);
         
         await delay(1500);
         
@@ -394,7 +394,7 @@ describe("Trading Operations", () => {
         // Modify the order
         const modifiedOrder = await account.modifyOrder(order.id, modifiedPrice);
         expect(modifiedOrder).toBeDefined();
-        expect(modifiedOrder).toHaveProperty('OrderId', order.id);
+        expect(modifiedOrder).toHaveProperty('id', order.id);
         
         await delay(1500);
         
@@ -0,0 +1,78 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SaxoValidationError, type Client } from "../../src/index.js";
+import { createMockServer, type MockServer } from "../../src/mock.js";
+import { createMockClient } from "../utils.js";
+
+const HOUR = 3_600_000;
+
+/**
+ * Chart history tests
+ * Pages through the generated history of the in-process mock gateway
+ */
+describe("Candles", () => {
+  let mock: MockServer;
+  let client: Client;
+
+  const charts = () => mock.requests.filter(r => r.path.startsWith("/chart/"));
+
+  beforeEach(async () => {
+    mock = createMockServer({
+      instruments: [
+        { uic: 21, assetType: "FxSpot", symbol: "EURUSD", bid: 1.1, ask: 1.1002 },
+        { uic: 211, assetType: "Stock", symbol: "AAPL:xnas", bid: 200, ask: 200.1 },
+      ],
+    });
+    ({ client } = await createMockClient(mock));
+  });
+
+  test("should page back through a range up to its end", async () => {
+    const to = new Date("2025-01-01T00:00:00.000Z");
+    const from = new Date(to.getTime() - 3000 * HOUR);
+    const candles = await client.getCandles({ uic: 21, horizon: 60, from, to });
+
+    expect(candles).toHaveLength(3001);
+    expect(candles[0].time).toEqual(from);
+    expect(candles.at(-1)!.time).toEqual(to);
+    expect(candles.every((candle, i) => i === 0 || candle.time.getTime() - candles[i - 1].time.getTime() === HOUR)).toBe(true);
+    expect(charts().map(r => r.path)).toEqual(["/chart/v3/charts", "/chart/v3/charts", "/chart/v3/charts"]);
+  });
+
+  test("should read forward from a date up to a count", async () => {
+    const from = new Date("2024-06-01T00:00:00.000Z");
+    const candles = await client.getCandles({ uic: 21, horizon: 60, mode: "From", from, count: 1500 });
+
+    expect(candles).toHaveLength(1500);
+    expect(candles[0].time).toEqual(from);
+    expect(new Set(candles.map(candle => candle.time.getTime())).size).toBe(1500);
+    expect(charts()).toHaveLength(2);
+  });
+
+  test("should read a single page without bounds", async () => {
+    const candles = await client.getCandles({ uic: 21, horizon: 1440 });
+
+    expect(candles).toHaveLength(1200);
+    expect(charts()).toHaveLength(1);
+    await expect(client.getCandles({ uic: 21, horizon: 60, mode: "From" })).rejects.toBeInstanceOf(SaxoValidationError);
+  });
+
+  test("should map bid and ask prices of FX and volumes of stocks", async () => {
+    const [fx] = await client.getCandles({ uic: 21, horizon: 60, count: 1 });
+    const [stock] = await client.getCandles({ uic: 211, assetType: "Stock", horizon: 1440, count: 1 });
+
+    expect(fx.ask!.open - fx.bid!.open).toBeCloseTo(0.0002, 8);
+    expect(fx.open).toBeCloseTo((fx.bid!.open + fx.ask!.open) / 2, 8);
+    expect(fx.volume).toBeUndefined();
+    expect(stock).toMatchObject({ bid: undefined, ask: undefined, volume: expect.any(Number) });
+    expect(stock.high).toBeGreaterThanOrEqual(Math.max(stock.open, stock.close));
+  });
+
+  test("should fall back to chart v1 when v3 is unavailable", async () => {
+    const { client: withoutV3 } = await createMockClient(mock, async (request) =>
+      new URL(request.url).pathname.endsWith("/chart/v3/charts") ? new Response(null, { status: 404 }) : mock.fetch(request));
+
+    await withoutV3.getCandles({ uic: 21, horizon: 60, count: 10 });
+    await withoutV3.getCandles({ uic: 21, horizon: 60, count: 10 });
+
+    expect(charts().map(r => r.path)).toEqual(["/chart/v1/charts", "/chart/v1/charts"]);
+  });
+});
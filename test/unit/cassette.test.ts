@@ -0,0 +1,117 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { createClient, SaxoNetworkError, type AppConfig, type Fetch } from "../../src/index.js";
+import { loadCassette } from "../../src/cassette.js";
+import { createMockServer } from "../../src/mock.js";
+
+const USERNAME = "trader@example.com";
+const PASSWORD = "correct horse";
+
+const config = (fetch: Fetch): AppConfig => ({
+  appKey: "app-key",
+  appSecret: "app-secret",
+  redirectUri: "http://localhost:3000",
+  apiEndpoint: "https://gateway.test/openapi",
+  authEndpoint: "https://auth.test",
+  retry: false,
+  fetch,
+});
+
+/**
+ * Cassette record and replay tests
+ * Records the login flow and trading traffic against the mock gateway, then replays it without it
+ */
+describe("Cassettes", () => {
+  let directory: string;
+  let path: string;
+  let upstream: Fetch;
+
+  beforeEach(async () => {
+    directory = await mkdtemp(join(tmpdir(), "sxc-"));
+    path = join(directory, "cassette.json");
+    const mock = createMockServer({
+      accounts: [{ accountId: "1/EUR", accountKey: "secret-account-key", currency: "EUR", cash: 100_000 }],
+      client: { clientId: "1", clientKey: "secret-client-key", name: "Test Client" },
+    });
+    upstream = async (request) => {
+      const json = (body: unknown) => new Response(JSON.stringify(body), { headers: { "Content-Type": "application/json" } });
+      const redirect = (location: string, headers: Record<string, string> = {}) => new Response(null, { status: 302, headers: { Location: location, ...headers } });
+      switch (new URL(request.url).pathname) {
+        case "/authorize": return redirect("https://www.saxobank.com/login");
+        case "/login": return redirect("https://www.saxobank.com/continue", { "Set-Cookie": "session=secret-cookie" });
+        case "/continue": return redirect("http://localhost:3000/?code=secret-auth-code&state=state");
+        case "/token": return json({ access_token: "secret-access-token", token_type: "Bearer", expires_in: 1200, refresh_token: "secret-refresh-token" });
+        default: return mock.fetch(request);
+      }
+    };
+  });
+
+  afterEach(async () => {
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const session = async (fetch: Fetch) => {
+    const client = await createClient({ type: "account", username: USERNAME, password: PASSWORD }, config(fetch));
+    const [account] = await client.getAccounts();
+    const position = await account.buy(21, 10000, "market");
+    return { client, account, position, balance: await account.getBalance() };
+  };
+
+  test("should record the traffic with secrets redacted", async () => {
+    const cassette = await loadCassette({ path, fetch: upstream, secrets: [USERNAME, PASSWORD] });
+    expect(cassette.mode).toBe("record");
+    await session(cassette.fetch);
+    await cassette.save();
+
+    const text = await readFile(path, "utf-8");
+    for (const secret of [USERNAME, PASSWORD, "secret-account-key", "secret-client-key", "secret-cookie", "secret-auth-code", "secret-access-token", "secret-refresh-token"]) {
+      expect(text).not.toContain(secret);
+      expect(text).not.toContain(encodeURIComponent(secret));
+      expect(text).not.toContain(new URLSearchParams({ secret }).toString().slice("secret=".length));
+    }
+    const { interactions } = JSON.parse(text);
+    expect(interactions.map((i: { request: { method: string; url: string } }) => `${i.request.method} ${new URL(i.request.url).pathname}`)).toEqual([
+      "GET /authorize",
+      "POST /login",
+      "GET /continue",
+      "POST /token",
+      "GET /openapi/port/v1/clients/me",
+      "GET /openapi/port/v1/accounts/me",
+      "POST /openapi/trade/v2/orders",
+      expect.stringMatching(/^GET \/openapi\/port\/v1\/orders\/redacted-\d+\/5000000001$/),
+      "GET /openapi/port/v1/positions",
+      "GET /openapi/port/v1/balances",
+    ]);
+  });
+
+  test("should replay a recorded session without network access", async () => {
+    const recorder = await loadCassette({ path, fetch: upstream, secrets: [USERNAME, PASSWORD] });
+    const recorded = await session(recorder.fetch);
+    await recorder.save();
+
+    const cassette = await loadCassette({ path });
+    expect(cassette.mode).toBe("replay");
+    const replayed = await session(cassette.fetch);
+
+    expect(replayed.client.name).toBe(recorded.client.name);
+    expect(replayed.account.key).toMatch(/^redacted-\d+$/);
+    expect(replayed.position).toEqual(recorded.position);
+    expect(replayed.balance).toEqual(recorded.balance);
+  });
+
+  test("should fail requests that were not recorded", async () => {
+    const recorder = await loadCassette({ path, fetch: upstream });
+    await session(recorder.fetch);
+    await recorder.save();
+
+    const cassette = await loadCassette({ path, mode: "replay" });
+    const { client } = await session(cassette.fetch);
+    await expect(client.getOrders()).rejects.toBeInstanceOf(SaxoNetworkError);
+  });
+
+  test("should refuse to replay a missing cassette", async () => {
+    await expect(loadCassette({ path, mode: "replay" })).rejects.toThrow("has not been recorded");
+  });
+});
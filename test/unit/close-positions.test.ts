@@ -0,0 +1,89 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SaxoApiError, SaxoCloseError, SaxoValidationError, type Account, type Client, type Position } from "../../src/index.js";
+import { createMockServer, type MockServer } from "../../src/mock.js";
+import { createMockClient } from "../utils.js";
+
+/**
+ * Position closing tests
+ * Closes individual positions against the in-process mock gateway
+ */
+describe("Close Positions", () => {
+  let mock: MockServer;
+  let client: Client;
+  let account: Account;
+
+  const placed = () => mock.requests.filter(r => r.method === "POST" && r.path === "/trade/v2/orders").map(r => r.body);
+
+  beforeEach(async () => {
+    mock = createMockServer();
+    ({ client, account } = await createMockClient(mock));
+  });
+
+  test("should close the given position rather than the oldest one", async () => {
+    const first = await account.buy(21, 10000, "market", undefined, undefined, { isForceOpen: true }) as Position;
+    const second = await account.buy(21, 20000, "market", undefined, undefined, { isForceOpen: true }) as Position;
+
+    await account.closePosition(second.id);
+
+    expect(placed().at(-1)).toMatchObject({ Uic: 21, AssetType: "FxSpot", BuySell: "Sell", OrderType: "Market", Amount: 20000, PositionId: second.id });
+    expect((await account.getPositions()).map(position => position.id)).toEqual([first.id]);
+  });
+
+  test("should close part of a short position with a limit order", async () => {
+    const short = await account.sell(21, 30000, "market") as Position;
+
+    const orderId = await account.closePosition(short.id, { quantity: 10000, orderType: "limit", price: 1.09 });
+    expect(placed().at(-1)).toMatchObject({ BuySell: "Buy", OrderType: "Limit", OrderPrice: 1.09, Amount: 10000, OrderDuration: { DurationType: "GoodTillCancel" } });
+    expect(await account.getOrders()).toMatchObject([{ id: orderId, type: "buy" }]);
+
+    mock.setPrice(21, 1.0898, 1.09);
+    expect(await account.getPositions()).toMatchObject([{ id: short.id, quantity: -20000 }]);
+  });
+
+  test("should close all positions, or those on one instrument", async () => {
+    await account.buy(21, 10000, "market", undefined, undefined, { isForceOpen: true });
+    await account.buy(21, 10000, "market", undefined, undefined, { isForceOpen: true });
+    const cable = await account.sell(31, 10000, "market") as Position;
+
+    expect(await account.closeAllPositions(21)).toHaveLength(2);
+    expect((await account.getPositions()).map(position => position.id)).toEqual([cable.id]);
+
+    await account.closeAllPositions();
+    expect(await account.getPositions()).toEqual([]);
+  });
+
+  test("should reject unknown positions and invalid quantities", async () => {
+    const position = await account.buy(21, 10000, "market") as Position;
+
+    await expect(account.closePosition("nosuch")).rejects.toBeInstanceOf(SaxoApiError);
+    await expect(account.closePosition("nosuch")).rejects.toMatchObject({ status: 0, endpoint: "/port/v1/positions" });
+    await expect(account.closePosition(position.id, { quantity: 20000 })).rejects.toBeInstanceOf(SaxoValidationError);
+    await expect(account.closePosition(position.id, { orderType: "stop" })).rejects.toBeInstanceOf(SaxoValidationError);
+    expect(placed()).toHaveLength(1);
+  });
+
+  test("should reject net and closed positions", async () => {
+    await account.buy(21, 10000, "market");
+    await account.sell(21, 5000, "market");
+    const [net] = await client.getNetPositions();
+    const [closed] = await client.getClosedPositions();
+
+    await expect(account.closePosition(net)).rejects.toBeInstanceOf(SaxoValidationError);
+    await expect(account.closePosition(closed)).rejects.toBeInstanceOf(SaxoValidationError);
+    expect(placed()).toHaveLength(2);
+  });
+
+  test("should report the positions closed before one fails", async () => {
+    const first = await account.buy(21, 10000, "market", undefined, undefined, { isForceOpen: true }) as Position;
+    const second = await account.buy(21, 10000, "market", undefined, undefined, { isForceOpen: true }) as Position;
+    const { account: failing } = await createMockClient(mock, async request =>
+      placed().length === 3 && request.method === "POST" ? new Response(null, { status: 503 }) : mock.fetch(request));
+
+    const error = await failing.closeAllPositions().catch(e => e);
+
+    expect(error).toBeInstanceOf(SaxoCloseError);
+    expect(error).toMatchObject({ status: 503, positionId: second.id, orderIds: [expect.any(String)] });
+    expect(placed()[2]).toMatchObject({ PositionId: first.id });
+    expect((await account.getPositions()).map(position => position.id)).toEqual([second.id]);
+  });
+});
@@ -0,0 +1,83 @@
+import { describe, test, expect, beforeAll, afterAll } from "vitest";
+import { startStandInServer, type StandInServer } from "../utils.js";
+import { createClient, SaxoAuthError, type Account, type AppConfig, type Client } from "../../src/index.js";
+
+/**
+ * Error mode tests for the read methods
+ * Runs against a local stand-in API gateway that starts rejecting the token
+ */
+describe("Error Mode", () => {
+  let server: StandInServer;
+  let expired: boolean;
+
+  beforeAll(async () => {
+    server = await startStandInServer(request => {
+      if (expired) return { status: 401 };
+      if (request.url.pathname === "/port/v1/clients/me") {
+        return { body: { ClientId: "1", ClientKey: "client-key", Name: "Test Client" } };
+      }
+      if (request.url.pathname === "/port/v1/accounts/me") {
+        return { body: { Data: [{ AccountId: "1/A", AccountKey: "account-key", Active: true, Currency: "EUR" }] } };
+      }
+      return { body: { Data: [] } };
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const setup = async (errorMode?: AppConfig["errorMode"]): Promise<{ client: Client; account: Account }> => {
+    expired = false;
+    const client = await createClient({ type: "token", token: "token" }, {
+      appKey: "app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: server.url,
+      errorMode,
+    });
+    const [account] = await client.getAccounts();
+    expired = true;
+    return { client, account };
+  };
+
+  test("should throw from every read method by default", async () => {
+    const { client, account } = await setup();
+
+    const reads = [
+      client.getAccounts(),
+      client.getPositions(),
+      client.getOrders(),
+      client.getNetPositions(),
+      client.getClosedPositions(),
+      client.getExposure(),
+      account.getPositions(),
+      account.getOrders(),
+      account.getBalance(),
+      client.getInstrumentDetails(21),
+      client.getQuote(21),
+    ];
+    for (const read of reads) {
+      await expect(read).rejects.toBeInstanceOf(SaxoAuthError);
+    }
+  });
+
+  test("should return empty results in empty mode", async () => {
+    const { client, account } = await setup("empty");
+
+    expect(await client.getAccounts()).toEqual([]);
+    expect(await client.getPositions()).toEqual([]);
+    expect(await client.getOrders()).toEqual([]);
+    expect(await client.getNetPositions()).toEqual([]);
+    expect(await client.getClosedPositions()).toEqual([]);
+    expect(await client.getExposure()).toEqual({});
+    expect(await account.getBalance()).toMatchObject({ cashAvailable: 0, totalValue: 0, currency: "EUR" });
+    expect(await client.getInstrumentDetails(21)).toMatchObject({ uic: 21, assetType: "FxSpot", orderTypes: [] });
+    expect(await client.getQuote(21)).toMatchObject({ uic: 21, assetType: "FxSpot", bid: undefined, ask: undefined });
+  });
+
+  test("should still throw from write methods in empty mode", async () => {
+    const { account } = await setup("empty");
+
+    await expect(account.cancelOrder("123")).rejects.toBeInstanceOf(SaxoAuthError);
+  });
+});
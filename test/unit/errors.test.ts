@@ -0,0 +1,126 @@
+import { describe, test, expect, beforeAll, afterAll } from "vitest";
+import { startStandInServer, type StandInServer, type StandInResponse } from "../utils.js";
+import {
+  createClient,
+  SaxoApiError,
+  SaxoAuthError,
+  SaxoNetworkError,
+  SaxoRateLimitError,
+  SaxoValidationError,
+  type Account,
+  type Client,
+} from "../../src/index.js";
+
+/**
+ * Error hierarchy tests
+ * Runs against a local stand-in API gateway that answers with canned Saxo errors
+ */
+describe("Typed Errors", () => {
+  let server: StandInServer;
+  let client: Client;
+  let account: Account;
+  let next: StandInResponse | undefined;
+
+  beforeAll(async () => {
+    server = await startStandInServer(request => {
+      if (request.url.pathname === "/port/v1/clients/me") {
+        return { body: { ClientId: "1", ClientKey: "client-key", Name: "Test Client" } };
+      }
+      if (request.url.pathname === "/port/v1/accounts/me") {
+        return { body: { Data: [{ AccountId: "1/A", AccountKey: "account-key", Active: true, Currency: "EUR" }] } };
+      }
+      return next ?? { status: 404 };
+    });
+    client = await createClient({ type: "token", token: "token" }, {
+      appKey: "app-key",
+      appSecret: "app-secret",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: server.url,
+      authEndpoint: server.url,
+      retry: false,
+    });
+    [account] = await client.getAccounts();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  const capture = async (promise: Promise<unknown>) => {
+    try {
+      await promise;
+    } catch (error) {
+      return error as SaxoApiError;
+    }
+    throw new Error("Expected the call to fail");
+  };
+
+  test("should expose the Saxo error code, endpoint and request id", async () => {
+    next = {
+      status: 400,
+      headers: { "X-Correlation": "correlation-id" },
+      body: { ErrorInfo: { ErrorCode: "InsufficientFunds", Message: "Insufficient funds for this order." } },
+    };
+    const error = await capture(account.buy(21, 10000, "market"));
+
+    expect(error).toBeInstanceOf(SaxoApiError);
+    expect(error.status).toBe(400);
+    expect(error.errorCode).toBe("InsufficientFunds");
+    expect(error.requestId).toBe("correlation-id");
+    expect(error.endpoint).toBe("/trade/v2/orders");
+    expect(error.message).toBe("API request failed with error InsufficientFunds: Insufficient funds for this order.");
+  });
+
+  test("should raise validation errors with the model state as an object", async () => {
+    next = {
+      status: 400,
+      body: { ErrorCode: "InvalidModelState", Message: "One or more properties are invalid", ModelState: { Amount: ["Amount must be positive"] } },
+    };
+    const error = await capture(client.preCheckOrder({
+      accountKey: account.key, uic: 21, assetType: "FxSpot", buySell: "Buy", orderType: "Market", amount: -1,
+    }));
+
+    expect(error).toBeInstanceOf(SaxoValidationError);
+    expect(error.modelState).toEqual({ Amount: ["Amount must be positive"] });
+    expect(error.endpoint).toBe("/trade/v2/orders/precheck");
+  });
+
+  test("should raise auth errors for rejected tokens", async () => {
+    next = { status: 401 };
+    const error = await capture(account.getBalance());
+
+    expect(error).toBeInstanceOf(SaxoAuthError);
+    expect(error.status).toBe(401);
+  });
+
+  test("should reject invalid orders before sending them", async () => {
+    const error = await capture(account.buy(21, 10000, "limit"));
+
+    expect(error).toBeInstanceOf(SaxoValidationError);
+    expect(error.status).toBe(0);
+  });
+
+  test("should raise network errors when the gateway is unreachable", async () => {
+    const unreachable = await startStandInServer(() => ({}));
+    await unreachable.close();
+    const error = await capture(createClient({ type: "token", token: "token" }, {
+      appKey: "app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: unreachable.url,
+      retry: false,
+    }));
+
+    expect(error).toBeInstanceOf(SaxoNetworkError);
+    expect(error.endpoint).toBe("/port/v1/clients/me");
+    expect(error.cause).toBeDefined();
+  });
+
+  test("should raise rate limit errors with the retry delay", async () => {
+    next = { status: 429, headers: { "Retry-After": "3" } };
+    const error = await capture(client.getExposure());
+
+    expect(error).toBeInstanceOf(SaxoRateLimitError);
+    expect((error as SaxoRateLimitError).retryAfter).toBe(3);
+    expect(error.endpoint).toBe("/port/v1/exposure/me");
+  });
+});
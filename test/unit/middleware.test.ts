@@ -0,0 +1,124 @@
+import { describe, test, expect } from "vitest";
+import { createClient, SaxoNetworkError, type AppConfig, type Fetch, type Middleware } from "../../src/index.js";
+
+const json = (body: unknown, status = 200) => new Response(JSON.stringify(body), {
+  status,
+  headers: { "Content-Type": "application/json" },
+});
+
+// Test double for the Saxo auth server and API gateway, including the login form redirects
+const fakeSaxo: Fetch = async (request) => {
+  const url = new URL(request.url);
+  switch (url.pathname.replace(/^\/openapi/, "")) {
+    case "/authorize":
+      return new Response(null, { status: 302, headers: { Location: "https://www.saxobank.com/login" } });
+    case "/login":
+      return new Response(null, { status: 302, headers: { Location: "https://www.saxobank.com/continue", "Set-Cookie": "session=1" } });
+    case "/continue":
+      return new Response(null, { status: 302, headers: { Location: "http://localhost:3000/?code=auth-code" } });
+    case "/token":
+      return json({ access_token: "token", token_type: "Bearer", expires_in: 1200 });
+    case "/port/v1/clients/me":
+      return json({ ClientId: "1", ClientKey: "client-key", Name: "Test Client" });
+    case "/port/v1/accounts/me":
+      return json({ Data: [{ AccountId: "1/A", AccountKey: "account-key", Active: true, Currency: "EUR" }] });
+    case "/trade/v2/orders":
+      return json({ OrderId: "order-1" });
+    default:
+      return json({}, 404);
+  }
+};
+
+const config = (overrides: Partial<AppConfig>): AppConfig => ({
+  appKey: "app-key",
+  appSecret: "app-secret",
+  redirectUri: "http://localhost:3000",
+  apiEndpoint: "https://gateway.test/openapi",
+  authEndpoint: "https://auth.test",
+  retry: false,
+  ...overrides,
+});
+
+/**
+ * Transport injection and middleware tests
+ * Uses a fetch test double, no network access required
+ */
+describe("Transport and Middleware", () => {
+  test("should send every request through the injected fetch", async () => {
+    const urls: string[] = [];
+    const client = await createClient(
+      { type: "account", username: "user", password: "pass" },
+      config({ fetch: request => (urls.push(request.url), fakeSaxo(request)) })
+    );
+    const [account] = await client.getAccounts();
+    await account.cancelOrder("order-1").catch(() => {});
+
+    expect(urls).toEqual([
+      "https://auth.test/authorize?response_type=code&client_id=app-key&state=" + new URL(urls[0]).searchParams.get("state") + "&redirect_uri=http%3A%2F%2Flocalhost%3A3000",
+      "https://www.saxobank.com/login",
+      "https://www.saxobank.com/continue",
+      "https://auth.test/token",
+      "https://gateway.test/openapi/port/v1/clients/me",
+      "https://gateway.test/openapi/port/v1/accounts/me",
+      "https://gateway.test/openapi/trade/v2/orders/order-1?AccountKey=account-key",
+    ]);
+  });
+
+  test("should apply request hooks in order and response hooks in reverse order", async () => {
+    const calls: string[] = [];
+    const tracing = (name: string): Middleware => ({
+      onRequest: (request) => {
+        calls.push(`${name}:request`);
+        const headers = new Headers(request.headers);
+        headers.append("X-Trace", name);
+        return new Request(request, { headers });
+      },
+      onResponse: () => {
+        calls.push(`${name}:response`);
+      },
+    });
+    const traces: (string | null)[] = [];
+    const client = await createClient({ type: "token", token: "token" }, config({
+      fetch: request => (traces.push(request.headers.get("X-Trace")), fakeSaxo(request)),
+      middleware: [tracing("outer"), tracing("inner")],
+    }));
+    const [account] = await client.getAccounts();
+    calls.length = 0;
+    await account.buy(21, 10000, "market");
+
+    expect(calls.slice(0, 4)).toEqual(["outer:request", "inner:request", "inner:response", "outer:response"]);
+    expect(traces.every(trace => trace === "outer, inner")).toBe(true);
+  });
+
+  test("should let response hooks replace the response", async () => {
+    const client = await createClient({ type: "token", token: "token" }, config({
+      fetch: fakeSaxo,
+      middleware: [{
+        onResponse: (response, request) => request.url.endsWith("/port/v1/clients/me")
+          ? json({ ClientId: "2", ClientKey: "other-key", Name: "Replaced" })
+          : response,
+      }],
+    }));
+
+    expect(client.name).toBe("Replaced");
+  });
+
+  test("should report network errors to error hooks, which may recover", async () => {
+    const errors: unknown[] = [];
+    const offline: Fetch = async () => {
+      throw new TypeError("fetch failed");
+    };
+
+    await expect(createClient({ type: "token", token: "token" }, config({
+      fetch: offline,
+      middleware: [{ onError: (error) => { errors.push(error); } }],
+    }))).rejects.toBeInstanceOf(SaxoNetworkError);
+    expect(errors[0]).toBeInstanceOf(SaxoNetworkError);
+
+    const client = await createClient({ type: "token", token: "token" }, config({
+      fetch: offline,
+      middleware: [{ onError: (_error, request) => fakeSaxo(request) }],
+    }));
+    expect(client.key).toBe("client-key");
+  });
+});
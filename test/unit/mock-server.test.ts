@@ -0,0 +1,152 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { createClient, SaxoApiError, SaxoAuthError, SaxoValidationError, type Account, type Client } from "../../src/index.js";
+import { createMockServer, type MockServer } from "../../src/mock.js";
+
+/**
+ * Mock gateway tests
+ * Exercises the stateful order matching of the bundled mock Saxo OpenAPI server
+ */
+describe("Mock Server", () => {
+  let mock: MockServer;
+  let client: Client;
+  let account: Account;
+  let url: string;
+
+  beforeEach(async () => {
+    mock = createMockServer({ token: "mock-token" });
+    url = await mock.listen();
+    client = await createClient({ type: "token", token: "mock-token" }, {
+      appKey: "app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: url,
+      retry: false,
+    });
+    [account] = await client.getAccounts();
+  });
+
+  afterEach(async () => {
+    await mock.close();
+  });
+
+  test("should fill market orders into positions and net them on close", async () => {
+    const position = await account.buy(21, 10000, "market");
+    expect(position).toMatchObject({ uic: 21, quantity: 10000, price: 1.1002, status: "Open" });
+
+    mock.setPrice(21, 1.12, 1.1202);
+    expect((await account.getBalance()).unrealizedPnL).toBeCloseTo(198, 6);
+
+    await account.sell(21, 10000, "market");
+    expect(await account.getPositions()).toEqual([]);
+    const [closed] = await client.getClosedPositions();
+    expect(closed).toMatchObject({ uic: 21, quantity: 10000, price: 1.1002 });
+    expect(closed.value).toBeCloseTo(198, 6);
+    expect((await account.getBalance()).cashBalance).toBeCloseTo(100_198, 6);
+  });
+
+  test("should keep limit orders working until the market reaches them", async () => {
+    const order = await account.buy(21, 10000, "limit", 1.09);
+    expect(await account.getOrders()).toMatchObject([{ id: order.id, status: "working", order_type: "limit", price: 1.09 }]);
+
+    await account.modifyOrder(order.id, 1.095);
+    mock.setPrice(21, 1.094, 1.0942);
+
+    expect(await account.getOrders()).toEqual([]);
+    expect(await account.getPositions()).toMatchObject([{ order_id: order.id, quantity: 10000, price: 1.0942 }]);
+  });
+
+  test("should turn triggered stop limit orders into limit orders", async () => {
+    const order = await account.sell(21, 10000, "stop_limit", 1.09, 1.08);
+
+    mock.setPrice(21, 1.07, 1.0702);
+    expect(await account.getOrders()).toMatchObject([{ id: order.id, order_type: "limit", price: 1.08 }]);
+
+    mock.setPrice(21, 1.085, 1.0852);
+    expect(await account.getPositions()).toMatchObject([{ quantity: -10000, price: 1.085 }]);
+  });
+
+  test("should cancel working orders", async () => {
+    const first = await account.buy(21, 10000, "limit", 1.0);
+    await account.buy(21, 10000, "limit", 0.9);
+    await account.sell(31, 10000, "limit", 2.0);
+
+    await account.cancelOrder(first.id);
+    expect(await account.getOrders()).toHaveLength(2);
+    await account.cancelAllOrders(21);
+    expect(await account.getOrders()).toMatchObject([{ uic: 31 }]);
+    await expect(account.cancelOrder(first.id)).rejects.toMatchObject({ status: 404, errorCode: "OrderNotFound" });
+  });
+
+  test("should reject invalid orders like the gateway", async () => {
+    await expect(account.buy(999999, 10000, "market")).rejects.toMatchObject({ errorCode: "IllegalInstrumentId" });
+    await expect(account.buy(21, 100_000_000, "market")).rejects.toMatchObject({ errorCode: "InsufficientFunds" });
+    await expect(client.preCheckOrder({
+      accountKey: account.key, uic: 21, assetType: "FxSpot", buySell: "Buy", orderType: "Limit", amount: 10000,
+    })).rejects.toBeInstanceOf(SaxoValidationError);
+  });
+
+  test("should reject repeated request ids", async () => {
+    await account.buy(21, 10000, "market", undefined, undefined, { requestId: "request-1" });
+    const error = await account.buy(21, 10000, "market", undefined, undefined, { requestId: "request-1" }).catch(e => e);
+
+    expect(error).toBeInstanceOf(SaxoApiError);
+    expect(error.status).toBe(409);
+    expect(await account.getPositions()).toHaveLength(1);
+  });
+
+  test("should precheck orders against the available margin", async () => {
+    const result = await client.preCheckOrder({
+      accountKey: account.key, uic: 21, assetType: "FxSpot", buySell: "Buy", orderType: "Market", amount: 10000,
+    });
+
+    expect(result.preCheckResult).toBe("Ok");
+    expect(result.marginImpact).toMatchObject({ initialMargin: 220.04, currency: "EUR" });
+  });
+
+  test("should reject unknown tokens", async () => {
+    await expect(createClient({ type: "token", token: "other-token" }, {
+      appKey: "app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: url,
+      retry: false,
+    })).rejects.toBeInstanceOf(SaxoAuthError);
+  });
+
+  test("should refresh tokens through its url as the auth endpoint", async () => {
+    const refreshing = await createClient({ type: "token", token: "mock-token", refreshToken: "mock-refresh-token", expiresIn: 30 }, {
+      appKey: "app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: url,
+      authEndpoint: url,
+      retry: false,
+    });
+
+    expect(await refreshing.getAccounts()).toHaveLength(1);
+    expect(mock.requests.find(r => r.path === "/token")?.body).toMatchObject({ grant_type: "refresh_token", refresh_token: "mock-refresh-token" });
+  });
+
+  test("should answer unreadable bodies with a 400", async () => {
+    const response = await fetch(`${url}/trade/v2/orders`, {
+      method: "POST",
+      headers: { "Authorization": "Bearer mock-token", "Content-Type": "application/json" },
+      body: "not json",
+    });
+
+    expect(response.status).toBe(400);
+    expect(await response.json()).toMatchObject({ ErrorInfo: { ErrorCode: "InvalidRequest" } });
+  });
+
+  test("should serve requests in-process as the client's fetch", async () => {
+    const inProcess = createMockServer();
+    const local = await createClient({ type: "token", token: "token" }, {
+      appKey: "app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: "https://gateway.saxobank.com/sim/openapi",
+      fetch: inProcess.fetch,
+    });
+    const [localAccount] = await local.getAccounts();
+    await localAccount.buy(21, 10000, "market");
+
+    expect(inProcess.requests.map(r => `${r.method} ${r.path}`)).toContain("POST /trade/v2/orders");
+    expect(await local.getNetPositions()).toMatchObject([{ uic: 21, quantity: 10000 }]);
+  });
+});
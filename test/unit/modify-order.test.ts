@@ -0,0 +1,106 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SaxoValidationError, type Account, type Order } from "../../src/index.js";
+import { createMockServer, type MockServer } from "../../src/mock.js";
+import { createMockClient } from "../utils.js";
+
+/**
+ * Order modification tests
+ * Modifies working orders and their attached orders against the in-process mock gateway
+ */
+describe("Modify Order", () => {
+  let mock: MockServer;
+  let account: Account;
+
+  const patched = () => mock.requests.filter(r => r.method === "PATCH" && r.path === "/trade/v2/orders").at(-1)!.body;
+
+  beforeEach(async () => {
+    mock = createMockServer();
+    ({ account } = await createMockClient(mock));
+  });
+
+  test("should keep the duration and quantity of an order when changing its price", async () => {
+    const order = await account.placeOrder({
+      type: "buy", order_type: "limit", uic: 21, quantity: 10000, price: 1.09, duration: { durationType: "DayOrder" },
+    }) as Order;
+
+    const modified = await account.modifyOrder(order.id, { price: 1.095 });
+
+    expect(patched()).toMatchObject({ OrderId: order.id, OrderType: "Limit", Amount: 10000, OrderPrice: 1.095, OrderDuration: { DurationType: "DayOrder" } });
+    expect(modified).toEqual((await account.getOrders())[0]);
+    expect(modified).toMatchObject({ id: order.id, price: 1.095, quantity: 10000, duration: { durationType: "DayOrder" } });
+
+    expect(await account.modifyOrder(order.id, undefined, 20000)).toMatchObject({ price: 1.095, quantity: 20000, duration: { durationType: "DayOrder" } });
+  });
+
+  test("should change the expiry, stop limit and trailing fields", async () => {
+    const stopLimit = await account.placeOrder({ type: "buy", order_type: "stop_limit", uic: 21, quantity: 10000, price: 1.105, stop_limit: 1.106 }) as Order;
+    const expiration = new Date("2030-01-01T00:00:00.000Z");
+
+    expect(await account.modifyOrder(stopLimit.id, { stop_limit: 1.107, expiration })).toMatchObject({
+      price: 1.105,
+      stop_limit: 1.107,
+      duration: { durationType: "GoodTillDate", expirationDateTime: "2030-01-01T00:00:00.000Z" },
+    });
+
+    const trailing = await account.placeOrder({ type: "sell", order_type: "trailing_stop", uic: 21, quantity: 10000, price: 1.098, distance: 0.002, step: 0.0005 }) as Order;
+    expect(await account.modifyOrder(trailing.id, { distance: 0.003 })).toMatchObject({ order_type: "trailing_stop", distance: 0.003, step: 0.0005 });
+    expect(patched()).toMatchObject({ OrderType: "TrailingStopIfTraded", OrderPrice: 1.098, TrailingStopDistanceToMarket: 0.003, TrailingStopStep: 0.0005 });
+  });
+
+  test("should modify the take profit and stop loss orders of an entry", async () => {
+    const entry = await account.buy(21, 10000, "limit", 1.09, undefined, {
+      takeProfit: { price: 1.1 },
+      stopLoss: { price: 1.08, duration: { durationType: "DayOrder" } },
+    }) as Order;
+    const [takeProfit, stopLoss] = entry.related!;
+
+    const modified = await account.modifyOrder(entry.id, { takeProfit: { price: 1.105 }, stopLoss: { price: 1.075 } });
+
+    expect(patched()).toMatchObject({
+      OrderId: entry.id,
+      OrderPrice: 1.09,
+      Orders: [
+        { OrderId: takeProfit.id, OrderType: "Limit", OrderPrice: 1.105, Amount: 10000, OrderDuration: { DurationType: "GoodTillCancel" } },
+        { OrderId: stopLoss.id, OrderType: "Stop", OrderPrice: 1.075, Amount: 10000, OrderDuration: { DurationType: "DayOrder" } },
+      ],
+    });
+    expect(modified.price).toBe(1.09);
+    expect(modified.related).toMatchObject([{ id: takeProfit.id, price: 1.105 }, { id: stopLoss.id, price: 1.075 }]);
+  });
+
+  test("should reject changes to attached orders the order does not have", async () => {
+    const order = await account.placeOrder({ type: "buy", order_type: "limit", uic: 21, quantity: 10000, price: 1.09 }) as Order;
+
+    await expect(account.modifyOrder(order.id, { stopLoss: { price: 1.08 } })).rejects.toBeInstanceOf(SaxoValidationError);
+    expect(mock.requests.some(r => r.method === "PATCH")).toBe(false);
+  });
+
+  test("should reject an expiration together with a duration", async () => {
+    const order = await account.placeOrder({ type: "buy", order_type: "limit", uic: 21, quantity: 10000, price: 1.09 }) as Order;
+    const expiration = new Date("2030-01-01T00:00:00.000Z");
+
+    await expect(account.modifyOrder(order.id, { expiration, duration: { durationType: "DayOrder" } })).rejects.toBeInstanceOf(SaxoValidationError);
+    await expect(account.modifyOrder(order.id, { stopLoss: { expiration, duration: { durationType: "GoodTillCancel" } } }))
+      .rejects.toBeInstanceOf(SaxoValidationError);
+    expect(mock.requests.some(r => r.method === "PATCH")).toBe(false);
+  });
+
+  test("should report an order modified into the market as filled", async () => {
+    const order = await account.placeOrder({ type: "buy", order_type: "limit", uic: 21, quantity: 10000, price: 1.09 }) as Order;
+
+    expect(await account.modifyOrder(order.id, { price: 1.1005 })).toMatchObject({ id: order.id, status: "filled", price: 1.1005 });
+    expect(await account.getPositions()).toMatchObject([{ order_id: order.id, quantity: 10000 }]);
+  });
+
+  test("should keep the last known status when the order cannot be read back", async () => {
+    const order = await account.placeOrder({ type: "buy", order_type: "limit", uic: 21, quantity: 10000, price: 1.09 }) as Order;
+    let patched = false;
+    const { account: failing } = await createMockClient(mock, async request => {
+      if (patched && request.method === "GET" && request.url.includes(order.id)) return new Response(null, { status: 500 });
+      patched ||= request.method === "PATCH";
+      return mock.fetch(request);
+    });
+
+    expect(await failing.modifyOrder(order.id, { price: 1.095 })).toMatchObject({ id: order.id, status: "working", price: 1.095 });
+  });
+});
@@ -0,0 +1,129 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SaxoValidationError, type Account, type MultiLegOrderSpec, type OptionContract } from "../../src/index.js";
+import { createMockServer, type MockServer } from "../../src/mock.js";
+import { createMockClient } from "../utils.js";
+
+/**
+ * Multi-leg order tests
+ * Trades option strategies built from an option chain against the in-process mock gateway
+ */
+describe("Multi-Leg Orders", () => {
+  let mock: MockServer;
+  let account: Account;
+  let contracts: OptionContract[];
+
+  const contract = (putCall: OptionContract["putCall"], strike: number) =>
+    contracts.find(contract => contract.putCall === putCall && contract.strike === strike)!;
+  const placed = () => mock.requests.filter(r => r.method === "POST" && r.path === "/trade/v2/orders/multileg").at(-1)!.body;
+
+  beforeEach(async () => {
+    const option = { assetType: "StockOption", symbol: "AAPL/17C200:xcbf", optionRootId: 500, expiryDate: "2025-01-17" } as const;
+    mock = createMockServer({
+      instruments: [
+        { ...option, uic: 5001, putCall: "Call", strike: 200, bid: 5, ask: 5.2 },
+        { ...option, uic: 5002, putCall: "Put", strike: 200, bid: 4, ask: 4.2 },
+        { ...option, uic: 5003, putCall: "Call", strike: 210, bid: 2, ask: 2.2 },
+      ],
+    });
+    const mocked = await createMockClient(mock);
+    account = mocked.account;
+    ({ contracts } = await mocked.client.getOptionChain(500));
+  });
+
+  test("should place a vertical spread and list its legs with the other orders", async () => {
+    const vertical = await account.placeMultiLegOrder({
+      type: "buy",
+      order_type: "limit",
+      price: 3,
+      duration: { durationType: "DayOrder" },
+      legs: [
+        { contract: contract("Call", 200), type: "buy", quantity: 1, toOpenClose: "ToOpen" },
+        { contract: contract("Call", 210), type: "sell", quantity: 1, toOpenClose: "ToOpen" },
+      ],
+    });
+
+    expect(placed()).toMatchObject({
+      BuySell: "Buy",
+      OrderType: "Limit",
+      OrderPrice: 3,
+      OrderDuration: { DurationType: "DayOrder" },
+      Legs: [
+        { Uic: 5001, AssetType: "StockOption", BuySell: "Buy", Amount: 1, ToOpenClose: "ToOpen" },
+        { Uic: 5003, AssetType: "StockOption", BuySell: "Sell", Amount: 1, ToOpenClose: "ToOpen" },
+      ],
+    });
+    expect(vertical.ids).toHaveLength(2);
+    expect(vertical.orders).toEqual(await account.getOrders());
+    expect(vertical.orders).toMatchObject([
+      { id: vertical.ids[0], uic: 5001, type: "buy", order_type: "limit", price: 3, multiLeg: { id: vertical.id, legCount: 2, type: "buy" } },
+      { id: vertical.ids[1], uic: 5003, type: "sell", order_type: "limit", price: 3, multiLeg: { id: vertical.id, legCount: 2, type: "buy" } },
+    ]);
+
+    mock.setPrice(5001, 4.8, 5);
+    expect(await account.getOrders()).toEqual([]);
+    expect(await account.getPositions()).toMatchObject([{ uic: 5001, quantity: 1, price: 5 }, { uic: 5003, quantity: -1, price: 2 }]);
+  });
+
+  test("should fill a market straddle at once", async () => {
+    const straddle = await account.placeMultiLegOrder({
+      type: "buy",
+      order_type: "market",
+      legs: [
+        { contract: contract("Call", 200), type: "buy", quantity: 2 },
+        { contract: contract("Put", 200), type: "buy", quantity: 2 },
+      ],
+    });
+
+    expect(placed()).not.toHaveProperty("OrderDuration");
+    expect(straddle.orders).toEqual([]);
+    expect(await account.getPositions()).toMatchObject([{ uic: 5001, quantity: 2 }, { uic: 5002, quantity: 2 }]);
+  });
+
+  test("should precheck multi-leg orders", async () => {
+    const spec: MultiLegOrderSpec = {
+      type: "sell",
+      order_type: "limit",
+      price: 2.8,
+      legs: [
+        { contract: contract("Call", 200), type: "sell", quantity: 1 },
+        { contract: contract("Call", 210), type: "buy", quantity: 1 },
+      ],
+    };
+
+    const result = await account.preCheckMultiLegOrder(spec);
+
+    expect(result.preCheckResult).toBe("Ok");
+    expect(result.marginImpact?.initialMargin).toBeGreaterThan(0);
+    expect(mock.requests.at(-1)).toMatchObject({ method: "POST", path: "/trade/v2/orders/multileg/precheck", body: { BuySell: "Sell", OrderPrice: 2.8 } });
+    expect(await account.getOrders()).toEqual([]);
+  });
+
+  test("should cancel every leg through any of them", async () => {
+    const legs = [
+      { contract: contract("Call", 200), type: "buy", quantity: 1 },
+      { contract: contract("Call", 210), type: "sell", quantity: 1 },
+    ] as const;
+    const first = await account.placeMultiLegOrder({ type: "buy", order_type: "limit", price: 2, legs: [...legs] });
+    const second = await account.placeMultiLegOrder({ type: "buy", order_type: "limit", price: 2.5, legs: [...legs] });
+
+    await account.cancelOrder(first.orders[1]);
+    expect(mock.requests.at(-1)).toMatchObject({ method: "DELETE", path: `/trade/v2/orders/multileg/${first.id}` });
+    expect((await account.getOrders()).map(order => order.multiLeg?.id)).toEqual([second.id, second.id]);
+
+    await second.cancel();
+    expect(await account.getOrders()).toEqual([]);
+  });
+
+  test("should reject orders without two to four legs or a net price", async () => {
+    const leg = { contract: contract("Call", 200), type: "buy", quantity: 1 } as const;
+    const specs = [
+      { type: "buy", order_type: "market", legs: [leg] },
+      { type: "buy", order_type: "market", legs: [leg, leg, leg, leg, leg] },
+      { type: "buy", order_type: "limit", legs: [leg, leg] },
+      { type: "buy", order_type: "stop", price: 3, legs: [leg, leg] },
+    ] as unknown as MultiLegOrderSpec[];
+
+    for (const spec of specs) await expect(account.placeMultiLegOrder(spec)).rejects.toBeInstanceOf(SaxoValidationError);
+    expect(mock.requests.some(r => r.path.startsWith("/trade/v2/orders"))).toBe(false);
+  });
+});
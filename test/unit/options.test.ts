@@ -0,0 +1,83 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SaxoValidationError, type Account, type Client, type Order, type Position } from "../../src/index.js";
+import { createMockServer, type MockServer } from "../../src/mock.js";
+import { createMockClient } from "../utils.js";
+
+/**
+ * Option order tests
+ * Looks up option chains and places option orders against the in-process mock gateway
+ */
+describe("Options", () => {
+  let mock: MockServer;
+  let client: Client;
+  let account: Account;
+
+  const placed = () => mock.requests.filter(r => r.method === "POST" && r.path === "/trade/v2/orders").at(-1)!.body;
+
+  beforeEach(async () => {
+    const contract = { assetType: "StockOption", symbol: "AAPL/17C200:xcbf", optionRootId: 500, bid: 5, ask: 5.2 } as const;
+    mock = createMockServer({
+      instruments: [
+        { uic: 21, assetType: "FxSpot", symbol: "EURUSD", bid: 1.1, ask: 1.1002 },
+        { uic: 22, assetType: "FxVanillaOption", symbol: "EURUSD", bid: 0.0051, ask: 0.0053 },
+        { ...contract, uic: 5001, putCall: "Call", strike: 200, expiryDate: "2025-01-17" },
+        { ...contract, uic: 5002, putCall: "Put", strike: 200, expiryDate: "2025-01-17" },
+        { ...contract, uic: 5003, putCall: "Call", strike: 210, expiryDate: "2025-02-21" },
+      ],
+    });
+    ({ client, account } = await createMockClient(mock));
+  });
+
+  test("should list the contracts of an option root", async () => {
+    const chain = await client.getOptionChain(500);
+
+    expect(chain).toMatchObject({ rootId: 500, assetType: "StockOption", expiryDates: ["2025-01-17", "2025-02-21"] });
+    expect(chain.contracts).toEqual([
+      { uic: 5001, assetType: "StockOption", putCall: "Call", strike: 200, expiryDate: "2025-01-17" },
+      { uic: 5002, assetType: "StockOption", putCall: "Put", strike: 200, expiryDate: "2025-01-17" },
+      { uic: 5003, assetType: "StockOption", putCall: "Call", strike: 210, expiryDate: "2025-02-21" },
+    ]);
+    expect((await client.getOptionChain(500, ["2025-02-21"])).contracts.map(contract => contract.uic)).toEqual([5003]);
+  });
+
+  test("should trade listed options by the Uic of the contract", async () => {
+    const position = await account.placeOrder({
+      type: "buy",
+      order_type: "market",
+      uic: 500,
+      quantity: 10,
+      assetType: "StockOption",
+      putCall: "Put",
+      strike: 200,
+      expiryDate: "2025-01-17",
+      toOpenClose: "ToOpen",
+    }) as Position;
+
+    expect(placed()).toMatchObject({ Uic: 5002, AssetType: "StockOption", ToOpenClose: "ToOpen" });
+    expect(placed()).not.toHaveProperty("PutCall");
+    expect(position).toMatchObject({ uic: 5002, quantity: 10, price: 5.2 });
+  });
+
+  test("should send the option leg of FX options", async () => {
+    const order = await account.buy(22, 100000, "limit", 0.005, undefined, {
+      assetType: "FxVanillaOption",
+      putCall: "Call",
+      strike: 1.12,
+      expiryDate: "2025-03-21",
+      toOpenClose: "ToOpen",
+    }) as Order;
+
+    expect(placed()).toMatchObject({ Uic: 22, PutCall: "Call", Strike: 1.12, ExpiryDate: "2025-03-21", ToOpenClose: "ToOpen" });
+    expect(order).toMatchObject({ assetType: "FxVanillaOption", price: 0.005 });
+  });
+
+  test("should reject incomplete or misplaced option legs", async () => {
+    const option = { type: "buy", order_type: "market", quantity: 10, putCall: "Call", strike: 200, expiryDate: "2025-01-17" } as const;
+
+    await expect(account.placeOrder({ ...option, uic: 500, assetType: "StockOption", strike: 205 })).rejects.toThrow("No Call with strike 205");
+    await expect(account.placeOrder({ ...option, uic: 21, assetType: "FxSpot" })).rejects.toBeInstanceOf(SaxoValidationError);
+    await expect(account.placeOrder({ type: "buy", order_type: "market", uic: 22, quantity: 10, assetType: "FxVanillaOption", putCall: "Call" }))
+      .rejects.toBeInstanceOf(SaxoValidationError);
+    expect(mock.requests.some(r => r.path === "/trade/v2/orders")).toBe(false);
+  });
+});
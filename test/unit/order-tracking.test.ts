@@ -0,0 +1,132 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SaxoOrderError, type Account, type Order, type OrderEvent } from "../../src/index.js";
+import { createMockServer, type MockServer } from "../../src/mock.js";
+import { createMockClient } from "../utils.js";
+
+/**
+ * Order lifecycle tests
+ * Follows orders through the activity log of the in-process mock gateway
+ */
+describe("Order Tracking", () => {
+  let mock: MockServer;
+  let account: Account;
+
+  const reads = () => mock.requests.filter(r => r.path === "/cs/v1/audit/orderactivities").length;
+  const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+  const limit = async () => await account.placeOrder({ type: "buy", order_type: "limit", uic: 21, quantity: 10000, price: 1.09 }) as Order;
+
+  beforeEach(async () => {
+    mock = createMockServer();
+    ({ account } = await createMockClient(mock));
+  });
+
+  test("should wait for a submitted market order to fill", async () => {
+    const handle = await account.submitOrder({ type: "buy", order_type: "market", uic: 21, quantity: 10000 }, { pollInterval: 10 });
+
+    expect(await handle.waitForFill({ timeout: 1000 })).toBe(handle);
+    expect(handle).toMatchObject({ status: "filled", filledQuantity: 10000, averageFillPrice: 1.1002 });
+    expect(mock.requests.filter(r => r.path === "/cs/v1/audit/orderactivities")).toHaveLength(1);
+  });
+
+  test("should report partial fills and the average fill price", async () => {
+    const order = await limit();
+    const handle = account.trackOrder(order.id, { pollInterval: 10 });
+    const fills: OrderEvent[] = [];
+    handle.on("partial_fill", event => fills.push(event));
+    handle.on("fill", event => fills.push(event));
+
+    mock.fillOrder(order.id, 4000);
+    await handle.waitForStatus("partially_filled", { timeout: 1000 });
+    expect(handle.filledQuantity).toBe(4000);
+    expect(await account.getOrders()).toMatchObject([{ id: order.id, quantity: 6000 }]);
+
+    mock.setPrice(21, 1.1, 1.1004);
+    mock.fillOrder(order.id);
+    await handle.waitForFill({ timeout: 1000 });
+
+    expect(fills).toMatchObject([
+      { type: "partial_fill", quantity: 4000, price: 1.1002 },
+      { type: "fill", quantity: 6000, price: 1.1004 },
+    ]);
+    expect(handle.averageFillPrice).toBeCloseTo(1.10032, 8);
+  });
+
+  test("should end with cancellations and yield them to iterators", async () => {
+    const order = await limit();
+    const handle = account.trackOrder(order.id, { pollInterval: 10 });
+    const fill = handle.waitForFill();
+    const iterator = handle[Symbol.asyncIterator]();
+
+    await account.cancelOrder(order.id);
+    const error = await fill.catch(e => e);
+
+    expect(error).toBeInstanceOf(SaxoOrderError);
+    expect(error).toMatchObject({ orderId: order.id, state: "cancelled" });
+    expect(await iterator.next()).toMatchObject({ value: { type: "cancelled" }, done: false });
+    expect(await iterator.next()).toMatchObject({ done: true });
+    expect(handle.status).toBe("cancelled");
+  });
+
+  test("should report rejections with their reason", async () => {
+    const order = await limit();
+    const handle = account.trackOrder(order.id, { pollInterval: 10 });
+    const events = (async () => {
+      const seen: OrderEvent[] = [];
+      for await (const event of handle) seen.push(event);
+      return seen;
+    })();
+
+    mock.rejectOrder(order.id, "Instrument not tradable");
+
+    await expect(handle.waitForStatus(["filled", "rejected"], { timeout: 1000 })).resolves.toMatchObject({ status: "rejected" });
+    expect(await events).toMatchObject([{ type: "rejected", reason: "Instrument not tradable" }]);
+    await expect(handle.waitForFill()).rejects.toMatchObject({ errorCode: "OrderRejected", state: "rejected" });
+  });
+
+  test("should time out and stop following a working order", async () => {
+    const handle = account.trackOrder((await limit()).id, { pollInterval: 10 });
+
+    await expect(handle.waitForFill({ timeout: 50 })).rejects.toMatchObject({ name: "SaxoOrderError", state: "working" });
+
+    const pending = handle.waitForStatus("cancelled");
+    handle.stop();
+    await expect(pending).rejects.toThrow("Stopped following order");
+    expect(handle.status).toBe("working");
+  });
+
+  test("should only read the order while it is followed", async () => {
+    const handle = account.trackOrder((await limit()).id, { pollInterval: 10 });
+    await sleep(50);
+    expect(reads()).toBe(0);
+
+    const off = handle.on("fill", () => {});
+    await sleep(50);
+    expect(reads()).toBeGreaterThan(1);
+
+    off();
+    await sleep(20);
+    const count = reads();
+    await sleep(50);
+    expect(reads()).toBe(count);
+    expect(handle.status).toBe("working");
+  });
+
+  test("should average the fills by quantity when no average price is reported", async () => {
+    ({ account } = await createMockClient(mock, async request => {
+      const response = await mock.fetch(request);
+      if (!request.url.includes("/cs/v1/audit/orderactivities")) return response;
+      const { Data, ...rest } = await response.json() as { Data: Record<string, unknown>[] };
+      return Response.json({ ...rest, Data: Data.map(({ AveragePrice: _, ...activity }) => activity) });
+    }));
+    const order = await limit();
+    const handle = account.trackOrder(order.id, { pollInterval: 10 });
+
+    mock.fillOrder(order.id, 4000);
+    await handle.waitForStatus("partially_filled", { timeout: 1000 });
+    mock.setPrice(21, 1.1, 1.1004);
+    mock.fillOrder(order.id);
+    await handle.waitForFill({ timeout: 1000 });
+
+    expect(handle.averageFillPrice).toBeCloseTo(1.10032, 8);
+  });
+});
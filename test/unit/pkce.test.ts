@@ -0,0 +1,94 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { createHash } from "node:crypto";
+import { createServer } from "node:net";
+import { startStandInServer, type StandInServer } from "../utils.js";
+import { createClient, type AppConfig } from "../../src/index.js";
+
+const freePort = () => new Promise<number>(resolve => {
+  const server = createServer().listen(0, "127.0.0.1", () => {
+    const { port } = server.address() as { port: number };
+    server.close(() => resolve(port));
+  });
+});
+
+/**
+ * PKCE authorization code flow tests
+ * Runs against a local stand-in auth server, the client listens on the loopback redirect URI
+ */
+describe("PKCE Authentication", () => {
+  let server: StandInServer;
+  let config: AppConfig;
+  let challenge: string | null;
+  let redirectState: (state: string) => string;
+
+  beforeEach(async () => {
+    challenge = null;
+    redirectState = state => state;
+    server = await startStandInServer(request => {
+      if (request.url.pathname === "/authorize") {
+        challenge = request.url.searchParams.get("code_challenge");
+        const redirect = new URL(request.url.searchParams.get("redirect_uri")!);
+        redirect.searchParams.set("code", "auth-code");
+        redirect.searchParams.set("state", redirectState(request.url.searchParams.get("state")!));
+        return { status: 302, headers: { Location: redirect.href } };
+      }
+      if (request.url.pathname === "/token") {
+        const params = new URLSearchParams(request.body);
+        const verified = createHash("sha256").update(params.get("code_verifier") ?? "").digest("base64url") === challenge;
+        if (params.get("code") !== "auth-code" || params.get("client_id") !== "app-key" || !verified) {
+          return { status: 400, body: { error: "invalid_grant" } };
+        }
+        return { body: { access_token: "pkce-token", token_type: "Bearer", expires_in: 1200, refresh_token: "refresh-token" } };
+      }
+      if (request.url.pathname === "/port/v1/clients/me" && request.headers.authorization === "Bearer pkce-token") {
+        return { body: { ClientId: "1", ClientKey: "client-key", Name: "Test Client" } };
+      }
+      return { status: 401 };
+    });
+    config = {
+      appKey: "app-key",
+      redirectUri: `http://127.0.0.1:${await freePort()}/callback`,
+      apiEndpoint: server.url,
+      authEndpoint: server.url,
+    };
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  test("should log in through the loopback redirect and exchange the code", async () => {
+    let authorizeUrl = "";
+    const client = await createClient({
+      type: "pkce",
+      authorize: async url => {
+        authorizeUrl = url;
+        await fetch(url);
+      },
+    }, config);
+
+    const params = new URL(authorizeUrl).searchParams;
+    expect(params.get("code_challenge_method")).toBe("S256");
+    expect(params.get("redirect_uri")).toBe(config.redirectUri);
+    expect(client.key).toBe("client-key");
+
+    const tokenRequest = server.requests.find(r => r.url.pathname === "/token")!;
+    expect(tokenRequest.headers.authorization).toBeUndefined();
+  });
+
+  test("should reject a redirect with a mismatched state", async () => {
+    redirectState = () => "forged";
+    await expect(createClient({ type: "pkce", authorize: async url => { await fetch(url); } }, config))
+      .rejects.toThrow("state mismatch");
+  });
+
+  test("should time out when the redirect never arrives", async () => {
+    await expect(createClient({ type: "pkce", authorize: () => {}, timeout: 50 }, config))
+      .rejects.toThrow("Timed out");
+  });
+
+  test("should require a loopback redirect URI", async () => {
+    await expect(createClient({ type: "pkce", authorize: () => {} }, { ...config, redirectUri: "https://example.com/callback" }))
+      .rejects.toThrow("loopback");
+  });
+});
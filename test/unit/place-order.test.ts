@@ -0,0 +1,83 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SaxoValidationError, type Account, type Order, type OrderSpec, type Position } from "../../src/index.js";
+import { createMockServer, type MockServer } from "../../src/mock.js";
+import { createMockClient } from "../utils.js";
+
+/**
+ * Order placement tests
+ * Places each order type through placeOrder against the in-process mock gateway
+ */
+describe("Place Order", () => {
+  let mock: MockServer;
+  let account: Account;
+
+  const placed = () => mock.requests.filter(r => r.method === "POST" && r.path === "/trade/v2/orders").at(-1)!.body;
+
+  beforeEach(async () => {
+    mock = createMockServer();
+    ({ account } = await createMockClient(mock));
+  });
+
+  test("should return the position of a filled market order", async () => {
+    const position = await account.placeOrder({ type: "buy", order_type: "market", uic: "EURUSD", quantity: 10000 }) as Position;
+
+    expect(placed()).toMatchObject({ Uic: 21, BuySell: "Buy", OrderType: "Market", Amount: 10000 });
+    expect(placed()).not.toHaveProperty("OrderDuration");
+    expect(position).toMatchObject({ uic: 21, quantity: 10000, price: 1.1002 });
+  });
+
+  test("should return working orders mapped like getOrders", async () => {
+    const order = await account.placeOrder({
+      type: "sell",
+      order_type: "stop",
+      uic: 21,
+      quantity: 10000,
+      price: 1.09,
+      externalReference: "breakdown",
+      duration: { durationType: "DayOrder" },
+    }) as Order;
+
+    expect(placed()).toMatchObject({ OrderType: "Stop", OrderPrice: 1.09, OrderDuration: { DurationType: "DayOrder" } });
+    expect(placed()).not.toHaveProperty("StopLimitPrice");
+    expect(order).not.toHaveProperty("OrderId");
+    expect(order).toEqual((await account.getOrders())[0]);
+    expect(order).toMatchObject({ type: "sell", order_type: "stop", price: 1.09, status: "working", externalReference: "breakdown" });
+  });
+
+  test("should send the prices of stop limit and trailing stop orders", async () => {
+    const stopLimit = await account.placeOrder({ type: "buy", order_type: "stop_limit", uic: 21, quantity: 10000, price: 1.105, stop_limit: 1.106 }) as Order;
+    expect(placed()).toMatchObject({ OrderType: "StopLimit", OrderPrice: 1.105, StopLimitPrice: 1.106 });
+    expect(stopLimit.order_type).toBe("stop_limit");
+
+    const trailing = await account.placeOrder({ type: "sell", order_type: "trailing_stop", uic: 21, quantity: 10000, price: 1.098, distance: 0.002, step: 0.0005 }) as Order;
+    expect(placed()).toMatchObject({ OrderType: "TrailingStopIfTraded", OrderPrice: 1.098, TrailingStopDistanceToMarket: 0.002, TrailingStopStep: 0.0005 });
+    expect(trailing.order_type).toBe("trailing_stop");
+  });
+
+  test("should accept stop orders with only a trigger price through sell", async () => {
+    const order = await account.sell(21, 10000, "stop", 1.09) as Order;
+
+    expect(placed()).toMatchObject({ OrderType: "Stop", OrderPrice: 1.09 });
+    expect(order.order_type).toBe("stop");
+  });
+
+  test("should leave the stop limit out of other orders placed by buy and sell", async () => {
+    await account.sell(21, 10000, "stop", 1.09, 1.085);
+
+    expect(placed()).toMatchObject({ OrderType: "Stop", OrderPrice: 1.09 });
+    expect(placed()).not.toHaveProperty("StopLimitPrice");
+  });
+
+  test("should reject specs missing or adding prices for their order type", async () => {
+    const specs = [
+      { type: "buy", order_type: "limit", uic: 21, quantity: 10000 },
+      { type: "buy", order_type: "market", uic: 21, quantity: 10000, price: 1.1 },
+      { type: "buy", order_type: "stop_limit", uic: 21, quantity: 10000, price: 1.105 },
+      { type: "sell", order_type: "stop", uic: 21, quantity: 10000, price: 1.09, stop_limit: 1.085 },
+      { type: "buy", order_type: "trailing_stop", uic: 21, quantity: 10000, price: 1.105, distance: 0.002 },
+    ] as unknown as OrderSpec[];
+
+    for (const spec of specs) await expect(account.placeOrder(spec)).rejects.toBeInstanceOf(SaxoValidationError);
+    expect(mock.requests.some(r => r.path === "/trade/v2/orders")).toBe(false);
+  });
+});
@@ -0,0 +1,134 @@
+import { describe, test, expect, beforeAll, afterAll } from "vitest";
+import { createStreamingStandIn, startStandInServer, type StandInServer, type StreamingStandIn } from "../utils.js";
+import { createClient, type Account, type Client, type CollectionEvent, type Order, type Position } from "../../src/index.js";
+
+const position = (id: string, amount: number) => ({
+  PositionId: id,
+  PositionBase: { AccountId: "1/A", Uic: 21, Amount: amount, OpenPrice: 1.1, SourceOrderId: `order-${id}`, Status: "Open" },
+  PositionView: { CurrentPrice: 1.1, ExposureCurrency: "EUR" },
+});
+
+const order = (id: string, price: number) => ({
+  OrderId: id,
+  OrderTime: "2025-01-01T12:00:00.000Z",
+  Uic: 21,
+  BuySell: "Buy",
+  OpenOrderType: "Limit",
+  Status: "Working",
+  Price: price,
+  Amount: 10000,
+  AccountId: "1/A",
+  AssetType: "FxSpot",
+});
+
+/**
+ * Portfolio streaming tests
+ * Runs against a local stand-in API gateway and an in-memory streaming WebSocket
+ */
+describe("Portfolio Streaming", () => {
+  let server: StandInServer;
+  let streaming: StreamingStandIn;
+  let client: Client;
+  let account: Account;
+
+  beforeAll(async () => {
+    streaming = createStreamingStandIn();
+    server = await startStandInServer(request => {
+      if (request.url.pathname === "/port/v1/clients/me") {
+        return { body: { ClientId: "1", ClientKey: "client-key", Name: "Test Client" } };
+      }
+      if (request.url.pathname === "/port/v1/accounts/me") {
+        return { body: { Data: [{ AccountId: "1/A", AccountKey: "account-key", Active: true, Currency: "EUR" }] } };
+      }
+      if (request.method === "POST") {
+        const { ReferenceId } = JSON.parse(request.body);
+        const snapshots: Record<string, unknown> = {
+          "/port/v1/positions/subscriptions": { Data: [position("p1", 10000), position("p2", -5000)] },
+          "/port/v1/orders/subscriptions": { Data: [order("o1", 1.05)] },
+          "/port/v1/balances/subscriptions": { CashBalance: 1000, CashAvailableForTrading: 900, TotalValue: 1100 },
+        };
+        return { status: 201, body: { ReferenceId, Snapshot: snapshots[request.url.pathname] } };
+      }
+      return { status: 202 };
+    });
+    client = await createClient({ type: "token", token: "token" }, {
+      appKey: "app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: server.url,
+      WebSocket: streaming.WebSocket,
+    });
+    [account] = await client.getAccounts();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("should keep positions current and report every change", async () => {
+    const positions = await account.subscribePositions();
+    expect(JSON.parse(server.requests.at(-1)!.body).Arguments).toEqual({
+      ClientKey: "client-key",
+      AccountKey: "account-key",
+      FieldGroups: ["PositionBase", "PositionView"],
+    });
+    expect(positions.items().map(p => [p.id, p.quantity])).toEqual([["p1", 10000], ["p2", -5000]]);
+
+    const events: [string, string, number][] = [];
+    for (const type of ["added", "updated", "removed"] as const) {
+      positions.on(type, (item) => events.push([type, item.id, item.value]));
+    }
+    streaming.push(positions.referenceId, [
+      { PositionId: "p1", PositionView: { CurrentPrice: 1.2 } },
+      { PositionId: "p2", __meta_deleted: true },
+      position("p3", 2000),
+    ]);
+
+    expect(events).toEqual([["updated", "p1", 1.2], ["removed", "p2", 1.1], ["added", "p3", 1.1]]);
+    expect(positions.get("p1")).toMatchObject({ quantity: 10000, price: 1.1, value: 1.2, currency: "EUR" });
+    expect(positions.items().map(p => p.id)).toEqual(["p1", "p3"]);
+    await positions.unsubscribe();
+  });
+
+  test("should iterate order changes until unsubscribed", async () => {
+    const orders = await client.subscribeOrders();
+    expect(JSON.parse(server.requests.at(-1)!.body).Arguments).toEqual({ ClientKey: "client-key" });
+
+    const events: CollectionEvent<Order>[] = [];
+    const reading = (async () => {
+      for await (const event of orders) events.push(event);
+    })();
+    streaming.push(orders.referenceId, [{ OrderId: "o1", Price: 1.04 }]);
+    streaming.push(orders.referenceId, [{ OrderId: "o1", __meta_deleted: true }]);
+    await orders.unsubscribe();
+    await reading;
+
+    expect(events.map(({ type, item }) => [type, item.id, item.price])).toEqual([["updated", "o1", 1.04], ["removed", "o1", 1.04]]);
+    expect(orders.items()).toEqual([]);
+  });
+
+  test("should merge balance deltas", async () => {
+    const balance = await account.subscribeBalance();
+    expect(balance.current).toMatchObject({ cashBalance: 1000, cashAvailable: 900, totalValue: 1100, currency: "EUR" });
+
+    const updates: number[] = [];
+    balance.on(next => updates.push(next.cashAvailable));
+    streaming.push(balance.referenceId, { CashAvailableForTrading: 800 });
+
+    expect(updates).toEqual([800]);
+    expect(balance.current).toMatchObject({ cashBalance: 1000, cashAvailable: 800 });
+    await balance.unsubscribe();
+  });
+
+  test("should share one streaming connection between subscriptions", async () => {
+    const before = streaming.sockets.length;
+    const [positions, orders] = await Promise.all([client.subscribePositions(), client.subscribeOrders()]);
+
+    expect(streaming.sockets.length).toBe(before + 1);
+    expect(positions.referenceId).not.toBe(orders.referenceId);
+    const removed: Position[] = [];
+    positions.on("removed", item => removed.push(item));
+    streaming.push(orders.referenceId, [{ OrderId: "o1", __meta_deleted: true }]);
+    expect(removed).toEqual([]);
+    await Promise.all([positions.unsubscribe(), orders.unsubscribe()]);
+  });
+});
@@ -0,0 +1,124 @@
+import { describe, test, expect, beforeAll, afterAll } from "vitest";
+import { createStreamingStandIn, encodeStreamingFrame, startStandInServer, type StandInServer, type StreamingStandIn } from "../utils.js";
+import { createClient, type Client, type Quote } from "../../src/index.js";
+
+/**
+ * Price streaming tests
+ * Runs against a local stand-in API gateway and an in-memory streaming WebSocket
+ */
+describe("Price Streaming", () => {
+  let server: StandInServer;
+  let streaming: StreamingStandIn;
+  let client: Client;
+  let early: unknown;
+
+  beforeAll(async () => {
+    streaming = createStreamingStandIn();
+    server = await startStandInServer(request => {
+      if (request.url.pathname === "/port/v1/clients/me") {
+        return { body: { ClientId: "1", ClientKey: "client-key", Name: "Test Client" } };
+      }
+      if (request.method === "POST" && request.url.pathname === "/trade/v1/infoprices/subscriptions") {
+        const { ReferenceId, Arguments } = JSON.parse(request.body);
+        // A delta sent while the subscription is being created
+        if (early) streaming.push(ReferenceId, early);
+        return {
+          status: 201,
+          body: {
+            ReferenceId,
+            State: "Active",
+            Snapshot: {
+              Data: Arguments.Uics.split(",").map((uic: string) => ({
+                Uic: Number(uic),
+                AssetType: Arguments.AssetType,
+                LastUpdated: "2025-01-01T12:00:00.000Z",
+                Quote: { Bid: 1.1, Ask: 1.1002, Mid: 1.1001, MarketState: "Open" },
+              })),
+            },
+          },
+        };
+      }
+      return { status: 202 };
+    });
+    client = await createClient({ type: "token", token: "token" }, {
+      appKey: "app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: server.url,
+      streamingEndpoint: "wss://streaming.test/openapi",
+      WebSocket: streaming.WebSocket,
+    });
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("should subscribe on the streaming connection and expose the snapshot", async () => {
+    const subscription = await client.subscribePrices([21, 31], "FxSpot");
+    const [socket] = streaming.sockets;
+    const create = server.requests.find(r => r.method === "POST")!;
+
+    expect(socket.url.pathname).toBe("/openapi/streamingws/connect");
+    expect(socket.url.searchParams.get("authorization")).toBe("BEARER token");
+    expect(JSON.parse(create.body)).toEqual({
+      ContextId: socket.url.searchParams.get("contextId"),
+      ReferenceId: subscription.referenceId,
+      Arguments: { Uics: "21,31", AssetType: "FxSpot", FieldGroups: ["Quote"] },
+    });
+    expect(subscription.quotes()).toMatchObject([
+      { uic: 21, assetType: "FxSpot", bid: 1.1, ask: 1.1002, mid: 1.1001, marketState: "Open" },
+      { uic: 31, assetType: "FxSpot", bid: 1.1, ask: 1.1002 },
+    ]);
+    await subscription.unsubscribe();
+  });
+
+  test("should merge deltas into the snapshot of each instrument", async () => {
+    const subscription = await client.subscribePrices([21, 31]);
+    const updates: Quote[] = [];
+    subscription.instrument(21).on(quote => updates.push(quote));
+
+    streaming.sockets.at(-1)!.receive(encodeStreamingFrame(
+      { messageId: 1, referenceId: subscription.referenceId, payload: [{ Uic: 21, Quote: { Bid: 1.2, Mid: 1.2001 } }] },
+      { messageId: 2, referenceId: subscription.referenceId, payload: [{ Uic: 31, LastUpdated: "2025-01-01T12:00:01.000Z", Quote: { Ask: 1.3 } }] },
+      { messageId: 3, referenceId: "_heartbeat", payload: [{ ReferenceId: "_heartbeat", Heartbeats: [] }] },
+    ));
+
+    expect(updates).toHaveLength(1);
+    expect(subscription.instrument(21).current).toMatchObject({ bid: 1.2, ask: 1.1002, mid: 1.2001, marketState: "Open" });
+    expect(subscription.instrument(31).current).toMatchObject({ bid: 1.1, ask: 1.3, time: new Date("2025-01-01T12:00:01.000Z") });
+    await subscription.unsubscribe();
+  });
+
+  test("should iterate quotes until the subscription is deleted", async () => {
+    const subscription = await client.subscribePrices([21]);
+    const received: number[] = [];
+    const reading = (async () => {
+      for await (const quote of subscription.instrument(21)) received.push(quote.bid);
+    })();
+
+    streaming.push(subscription.referenceId, [{ Uic: 21, Quote: { Bid: 1.11 } }]);
+    streaming.push(subscription.referenceId, [{ Uic: 21, Quote: { Bid: 1.12 } }]);
+    const socket = streaming.sockets.at(-1)!;
+    await subscription.unsubscribe();
+    await reading;
+
+    expect(received).toEqual([1.11, 1.12]);
+    const contextId = socket.url.searchParams.get("contextId");
+    expect(server.requests.at(-1)).toMatchObject({
+      method: "DELETE",
+      url: expect.objectContaining({ pathname: `/trade/v1/infoprices/subscriptions/${contextId}/${subscription.referenceId}` }),
+    });
+    await new Promise(resolve => setTimeout(resolve));
+    expect(socket.readyState).toBe(3);
+  });
+
+  test("should apply deltas that arrive before the snapshot after it", async () => {
+    early = [{ Uic: 21, Quote: { Bid: 1.15 } }];
+    const subscription = await client.subscribePrices([21]);
+    early = undefined;
+
+    expect(subscription.instrument(21).current).toMatchObject({ bid: 1.15, ask: 1.1002 });
+    expect(() => subscription.instrument(99)).toThrow("not part of this subscription");
+    await subscription.unsubscribe();
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, test, expect, beforeAll, afterAll } from "vitest";
+import { startStandInServer, type StandInServer } from "../utils.js";
+import { createClient, type Account, type Client } from "../../src/index.js";
+
+/**
+ * Rate limit scheduling tests
+ * Runs against a local stand-in API gateway that reports an exhausted rate limit window
+ */
+describe("Rate Limiting", () => {
+  let server: StandInServer;
+  let client: Client;
+  let account: Account;
+  let remaining: number;
+
+  beforeAll(async () => {
+    server = await startStandInServer(request => {
+      if (request.url.pathname === "/port/v1/clients/me") {
+        return { body: { ClientId: "1", ClientKey: "client-key", Name: "Test Client" } };
+      }
+      if (request.url.pathname === "/port/v1/accounts/me") {
+        return { body: { Data: [{ AccountId: "1/A", AccountKey: "account-key", Active: true, Currency: "EUR" }] } };
+      }
+      if (request.url.pathname.startsWith("/trade/")) {
+        return { body: { OrderId: "order-1" } };
+      }
+      return {
+        headers: {
+          "X-RateLimit-Session-Limit": "120",
+          "X-RateLimit-Session-Remaining": String(remaining),
+          "X-RateLimit-Session-Reset": "1",
+        },
+        body: { CashBalance: 1000, Currency: "EUR" },
+      };
+    });
+    client = await createClient({ type: "token", token: "token" }, {
+      appKey: "app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: server.url,
+    });
+    [account] = await client.getAccounts();
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("should track the buckets reported by Saxo", async () => {
+    remaining = 100;
+    await account.getBalance();
+
+    const { buckets, queued, inFlight } = client.getRateLimitMetrics();
+    expect(buckets.session).toMatchObject({ limit: 120, remaining: 100 });
+    expect(buckets.session.reset.getTime()).toBeGreaterThan(Date.now());
+    expect(queued).toBe(0);
+    expect(inFlight).toBe(0);
+  });
+
+  test("should queue requests until an exhausted window resets", async () => {
+    remaining = 0;
+    await account.getBalance();
+    remaining = 100;
+
+    const started = Date.now();
+    const pending = Promise.all([account.getBalance(), account.getBalance(), client.getPositions()]);
+    expect(client.getRateLimitMetrics().queued).toBe(3);
+
+    await pending;
+    expect(Date.now() - started).toBeGreaterThanOrEqual(900);
+    expect(client.getRateLimitMetrics().queued).toBe(0);
+  });
+
+  test("should not hold back other service groups", async () => {
+    remaining = 0;
+    await account.getBalance();
+    remaining = 100;
+
+    const balance = account.getBalance();
+    const started = Date.now();
+    await account.buy(21, 10000, "market");
+
+    expect(Date.now() - started).toBeLessThan(900);
+    expect(client.getRateLimitMetrics().queued).toBe(1);
+    await balance;
+  });
+});
@@ -0,0 +1,146 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SaxoApiError, SaxoValidationError, type Account, type OcoOrder, type Order } from "../../src/index.js";
+import { createMockServer, type MockServer } from "../../src/mock.js";
+import { createMockClient } from "../utils.js";
+
+/**
+ * Related order tests
+ * Places entries with take profit and stop loss orders, and OCO pairs, against the in-process mock gateway
+ */
+describe("Related Orders", () => {
+  let mock: MockServer;
+  let account: Account;
+
+  const placed = () => mock.requests.filter(r => r.method === "POST" && r.path === "/trade/v2/orders").at(-1)!.body;
+  const entry = async () => (await account.getOrders()).find(order => order.relation === "IfDoneMaster")!;
+
+  beforeEach(async () => {
+    mock = createMockServer();
+    ({ account } = await createMockClient(mock));
+  });
+
+  test("should attach exit orders to an entry", async () => {
+    await account.buy(21, 10000, "limit", 1.09, undefined, {
+      takeProfit: { price: 1.1 },
+      stopLoss: { distance: 0.005, duration: { durationType: "DayOrder" } },
+    });
+
+    expect(placed()).toMatchObject({
+      OrderType: "Limit",
+      OrderRelation: "IfDoneMaster",
+      Orders: [
+        { BuySell: "Sell", OrderType: "Limit", OrderPrice: 1.1, Amount: 10000, OrderRelation: "IfDoneSlave", OrderDuration: { DurationType: "GoodTillCancel" } },
+        { BuySell: "Sell", OrderType: "Stop", OrderPrice: 1.085, Amount: 10000, OrderRelation: "IfDoneSlave", OrderDuration: { DurationType: "DayOrder" } },
+      ],
+    });
+    const order = await entry();
+    expect(order.related).toMatchObject([
+      { order_type: "limit", price: 1.1, quantity: 10000, status: "working" },
+      { order_type: "stop", price: 1.085, quantity: 10000, status: "working" },
+    ]);
+    const exits = (await account.getOrders()).filter(o => o.relation === "IfDoneSlave");
+    expect(exits.map(o => o.id)).toEqual(order.related!.map(o => o.id));
+  });
+
+  test("should measure distances of market entries from the quote and close with the first exit", async () => {
+    await account.buy(21, 10000, "market", undefined, undefined, { takeProfit: { distance: 0.01 }, stopLoss: { distance: 0.01 } });
+
+    expect(placed().Orders.map((o: { OrderPrice: number }) => o.OrderPrice)).toEqual([1.1102, 1.0902]);
+    expect(await account.getPositions()).toHaveLength(1);
+    expect(await account.getOrders()).toHaveLength(2);
+
+    mock.setPrice(21, 1.111, 1.1112);
+    expect(await account.getPositions()).toEqual([]);
+    expect(await account.getOrders()).toEqual([]);
+  });
+
+  test("should modify and cancel each exit order", async () => {
+    await account.buy(21, 10000, "limit", 1.09, undefined, { takeProfit: { price: 1.1 }, stopLoss: { price: 1.08 } });
+    const [takeProfit, stopLoss] = (await entry()).related!;
+
+    await account.modifyOrder(stopLoss.id, 1.075);
+    expect((await entry()).related).toMatchObject([{ id: takeProfit.id, price: 1.1 }, { id: stopLoss.id, price: 1.075 }]);
+
+    await account.cancelOrder(takeProfit.id);
+    expect((await entry()).related!.map(o => o.id)).toEqual([stopLoss.id]);
+
+    await account.cancelOrder((await entry()).id);
+    expect(await account.getOrders()).toEqual([]);
+  });
+
+  test("should trail the market with a trailing stop loss", async () => {
+    await account.buy(21, 10000, "market", undefined, undefined, { stopLoss: { distance: 0.002, trailingStep: 0.0005 } });
+
+    expect(placed().Orders).toMatchObject([{ OrderType: "TrailingStopIfTraded", OrderPrice: 1.0982, TrailingStopDistanceToMarket: 0.002, TrailingStopStep: 0.0005 }]);
+    mock.setPrice(21, 1.105, 1.1052);
+    const [stop] = await account.getOrders() as Order[];
+    expect(stop.price).toBeCloseTo(1.1027, 6);
+
+    mock.setPrice(21, 1.1025, 1.1027);
+    expect(await account.getPositions()).toEqual([]);
+  });
+
+  test("should require a price or a distance for each exit", async () => {
+    await expect(account.buy(21, 10000, "market", undefined, undefined, { takeProfit: {} })).rejects.toBeInstanceOf(SaxoValidationError);
+    expect(mock.requests.some(r => r.path === "/trade/v2/orders")).toBe(false);
+  });
+
+  describe("OCO", () => {
+    const breakout: [OcoOrder, OcoOrder] = [
+      { type: "buy", order_type: "stop", quantity: 10000, price: 1.105 },
+      { type: "sell", order_type: "stop", quantity: 10000, price: 1.095 },
+    ];
+
+    test("should place a linked pair where the first fill cancels the other", async () => {
+      const group = await account.placeOcoOrders("EURUSD", ...breakout);
+
+      expect(placed()).toEqual({
+        Orders: [
+          expect.objectContaining({ Uic: 21, BuySell: "Buy", OrderType: "Stop", OrderPrice: 1.105, OrderRelation: "Oco" }),
+          expect.objectContaining({ Uic: 21, BuySell: "Sell", OrderType: "Stop", OrderPrice: 1.095, OrderRelation: "Oco" }),
+        ],
+      });
+      expect(group.orders.map(order => order.id)).toEqual(group.ids);
+      expect(group.orders[0]).toMatchObject({ relation: "Oco", related: [{ id: group.ids[1], price: 1.095 }] });
+
+      mock.setPrice(21, 1.1058, 1.106);
+      expect(await account.getOrders()).toEqual([]);
+      expect(await account.getPositions()).toMatchObject([{ order_id: group.ids[0], quantity: 10000 }]);
+    });
+
+    test("should cancel the partner with an OCO order", async () => {
+      const group = await account.placeOcoOrders(21, ...breakout);
+      await account.cancelOrder(group.orders[0]);
+      expect(await account.getOrders()).toEqual([]);
+
+      const other = await account.placeOcoOrders(21, ...breakout);
+      await account.cancelOrder(other.ids[0]);
+      expect(await account.getOrders()).toMatchObject([{ id: other.ids[1], relation: "StandAlone" }]);
+
+      const last = await account.placeOcoOrders(21, ...breakout);
+      await last.cancel();
+      expect((await account.getOrders()).map(order => order.id)).toEqual([other.ids[1]]);
+    });
+
+    test("should reject market orders in a pair", async () => {
+      await expect(account.placeOcoOrders(21, breakout[0], { ...breakout[1], order_type: "market" as "limit" }))
+        .rejects.toBeInstanceOf(SaxoValidationError);
+    });
+
+    test("should raise the error of a rejected order in a pair", async () => {
+      const rejection = { ErrorCode: "InsufficientMargin", Message: "Insufficient margin" };
+      const { account: rejecting } = await createMockClient(mock, async request => {
+        const response = await mock.fetch(request);
+        if (request.method !== "POST") return response;
+        const { Orders: [first] } = await response.json() as { Orders: unknown[] };
+        return Response.json({ Orders: [first, { ErrorInfo: rejection }] });
+      });
+
+      const error = await rejecting.placeOcoOrders(21, ...breakout).catch(e => e);
+
+      expect(error).toBeInstanceOf(SaxoApiError);
+      expect(error).toMatchObject({ errorCode: "InsufficientMargin", endpoint: "/trade/v2/orders", cause: rejection });
+      expect(error.message).toContain("Insufficient margin");
+    });
+  });
+});
@@ -0,0 +1,112 @@
+import { describe, test, expect, beforeAll, afterAll, beforeEach } from "vitest";
+import { startStandInServer, type StandInServer, type StandInResponse } from "../utils.js";
+import { createClient, SaxoApiError, SaxoUnconfirmedOrderError, type Account } from "../../src/index.js";
+
+/**
+ * Retry and idempotent submission tests
+ * Runs against a local stand-in API gateway that fails a scripted number of times
+ */
+describe("Retries", () => {
+  let server: StandInServer;
+  let account: Account;
+  let failures: StandInResponse[];
+
+  beforeAll(async () => {
+    server = await startStandInServer(request => {
+      if (request.url.pathname === "/port/v1/clients/me") {
+        return { body: { ClientId: "1", ClientKey: "client-key", Name: "Test Client" } };
+      }
+      if (request.url.pathname === "/port/v1/accounts/me") {
+        return { body: { Data: [{ AccountId: "1/A", AccountKey: "account-key", Active: true, Currency: "EUR" }] } };
+      }
+      const failure = failures.shift();
+      if (failure) return failure;
+      if (request.method === "POST") return { body: { OrderId: "order-1" } };
+      if (request.url.pathname === "/port/v1/balances") return { body: { CashBalance: 1000, Currency: "EUR" } };
+      return { status: 404 };
+    });
+    const client = await createClient({ type: "token", token: "token" }, {
+      appKey: "app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: server.url,
+      retry: { retries: 2, minDelay: 1, maxDelay: 5 },
+    });
+    [account] = await client.getAccounts();
+  });
+
+  beforeEach(() => {
+    failures = [];
+    server.requests.length = 0;
+  });
+
+  afterAll(async () => {
+    await server.close();
+  });
+
+  test("should retry GET requests after server errors", async () => {
+    failures = [{ status: 503 }, { status: 502 }];
+    const balance = await account.getBalance();
+
+    expect(balance.cashBalance).toBe(1000);
+    expect(server.requests).toHaveLength(3);
+  });
+
+  test("should give up after the configured number of retries", async () => {
+    failures = [{ status: 503 }, { status: 503 }, { status: 503 }];
+
+    await expect(account.getBalance()).rejects.toBeInstanceOf(SaxoApiError);
+    expect(server.requests).toHaveLength(3);
+  });
+
+  test("should honor Retry-After when throttled", async () => {
+    failures = [{ status: 429, headers: { "Retry-After": "1" } }];
+    const started = Date.now();
+    await account.getBalance();
+
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950);
+    expect(server.requests).toHaveLength(2);
+  });
+
+  test("should not retry client errors", async () => {
+    failures = [{ status: 400, body: { ErrorCode: "InvalidRequest", Message: "Invalid request" } }];
+
+    await expect(account.getBalance()).rejects.toBeInstanceOf(SaxoApiError);
+    expect(server.requests).toHaveLength(1);
+  });
+
+  test("should resend an order with the same request id", async () => {
+    failures = [{ status: 502 }];
+    await account.buy(21, 10000, "market");
+
+    const submissions = server.requests.filter(r => r.method === "POST");
+    expect(submissions).toHaveLength(2);
+    expect(submissions[0].headers["x-request-id"]).toBeDefined();
+    expect(submissions[1].headers["x-request-id"]).toBe(submissions[0].headers["x-request-id"]);
+  });
+
+  test("should report a retried order rejected as a duplicate as possibly placed", async () => {
+    failures = [{ status: 502 }, { status: 409, body: { ErrorCode: "DuplicateOperation", Message: "Duplicate operation" } }];
+
+    const error = await account.buy(21, 10000, "market").catch(e => e);
+
+    expect(error).toBeInstanceOf(SaxoUnconfirmedOrderError);
+    expect(error).toMatchObject({ status: 409, errorCode: "DuplicateOperation", requestId: server.requests[0].headers["x-request-id"] });
+    expect(server.requests).toHaveLength(2);
+  });
+
+  test("should use the caller's request id and per-call retry override", async () => {
+    failures = [{ status: 502 }];
+
+    await expect(account.buy(21, 10000, "market", undefined, undefined, { requestId: "my-request", retry: false }))
+      .rejects.toBeInstanceOf(SaxoApiError);
+    expect(server.requests).toHaveLength(1);
+    expect(server.requests[0].headers["x-request-id"]).toBe("my-request");
+  });
+
+  test("should not retry requests with side effects", async () => {
+    failures = [{ status: 503 }];
+
+    await expect(account.cancelOrder("order-1")).rejects.toBeInstanceOf(SaxoApiError);
+    expect(server.requests).toHaveLength(1);
+  });
+});
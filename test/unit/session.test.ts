@@ -0,0 +1,101 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { startStandInServer, type StandInServer, type StandInRequest } from "../utils.js";
+import { createClient, type TokenResponse } from "../../src/index.js";
+
+/**
+ * Access token lifecycle tests
+ * Runs against a local stand-in for the auth server and API gateway
+ */
+describe("Token Refresh", () => {
+  let server: StandInServer;
+  let validToken: string;
+  let issued: number;
+
+  const bearer = (request: StandInRequest) => request.headers.authorization?.replace("Bearer ", "");
+
+  beforeEach(async () => {
+    validToken = "initial-token";
+    issued = 0;
+    server = await startStandInServer(request => {
+      if (request.url.pathname === "/token") {
+        const params = new URLSearchParams(request.body);
+        if (params.get("grant_type") !== "refresh_token" || params.get("refresh_token") !== "refresh-token") {
+          return { status: 400, body: { error: "invalid_grant" } };
+        }
+        validToken = `refreshed-token-${++issued}`;
+        return { body: { access_token: validToken, token_type: "Bearer", expires_in: 1200, refresh_token: "refresh-token" } };
+      }
+      if (bearer(request) !== validToken) return { status: 401 };
+      if (request.url.pathname === "/port/v1/clients/me") {
+        return { body: { ClientId: "1", ClientKey: "client-key", Name: "Test Client" } };
+      }
+      if (request.url.pathname === "/port/v1/accounts/me") {
+        return { body: { Data: [{ AccountId: "1/A", AccountKey: "account-key", Active: true, Currency: "EUR" }] } };
+      }
+      return { status: 404 };
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const config = (onTokenRefreshed?: (token: TokenResponse) => void) => ({
+    appKey: "app-key",
+    appSecret: "app-secret",
+    redirectUri: "http://localhost:3000",
+    apiEndpoint: server.url,
+    authEndpoint: server.url,
+    onTokenRefreshed,
+  });
+
+  test("should refresh a token that is about to expire before using it", async () => {
+    const refreshed: TokenResponse[] = [];
+    const client = await createClient(
+      { type: "token", token: "initial-token", refreshToken: "refresh-token", expiresIn: 30 },
+      config(token => refreshed.push(token))
+    );
+
+    expect(client.key).toBe("client-key");
+    expect(refreshed).toHaveLength(1);
+    expect(refreshed[0].access_token).toBe("refreshed-token-1");
+    expect(server.requests.map(r => r.url.pathname)).toEqual(["/token", "/port/v1/clients/me"]);
+    expect(server.requests[0].headers.authorization).toBe(`Basic ${Buffer.from("app-key:app-secret").toString("base64")}`);
+  });
+
+  test("should refresh and retry once when the API answers 401", async () => {
+    const refreshed: TokenResponse[] = [];
+    const client = await createClient(
+      { type: "token", token: "initial-token", refreshToken: "refresh-token", expiresIn: 1200 },
+      config(token => refreshed.push(token))
+    );
+
+    // Revoke the current token server side
+    validToken = "revoked";
+    issued = 1;
+    const accounts = await client.getAccounts();
+
+    expect(accounts).toHaveLength(1);
+    expect(refreshed.map(t => t.access_token)).toEqual(["refreshed-token-2"]);
+    expect(bearer(server.requests[server.requests.length - 1])).toBe("refreshed-token-2");
+  });
+
+  test("should share a single refresh between concurrent requests", async () => {
+    const refreshed: TokenResponse[] = [];
+    const client = await createClient(
+      { type: "token", token: "initial-token", refreshToken: "refresh-token", expiresIn: 1200 },
+      config(token => refreshed.push(token))
+    );
+
+    validToken = "revoked";
+    await Promise.all([client.getAccounts(), client.getAccounts(), client.getAccounts()]);
+
+    expect(refreshed).toHaveLength(1);
+    expect(server.requests.filter(r => r.url.pathname === "/token")).toHaveLength(1);
+  });
+
+  test("should fail without a refresh token when the token is rejected", async () => {
+    await expect(createClient({ type: "token", token: "unknown-token" }, config())).rejects.toThrow();
+    expect(server.requests.filter(r => r.url.pathname === "/token")).toHaveLength(0);
+  });
+});
@@ -0,0 +1,151 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { createStreamingStandIn, startStandInServer, type StandInRequest, type StandInServer, type StreamingStandIn } from "../utils.js";
+import { createClient, type Client, type StreamingOptions } from "../../src/index.js";
+
+const until = async (condition: () => boolean) => {
+  for (let waited = 0; !condition(); waited += 5) {
+    if (waited > 2000) throw new Error("Condition not met within 2 seconds");
+    await new Promise(resolve => setTimeout(resolve, 5));
+  }
+};
+
+/**
+ * Streaming connection tests
+ * Drops, resets and re-authorizes the shared connection against a local stand-in gateway and WebSocket
+ */
+describe("Streaming Connection", () => {
+  let server: StandInServer;
+  let streaming: StreamingStandIn;
+  let validToken: string;
+  let created: number;
+
+  const bearer = (request: StandInRequest) => request.headers.authorization?.replace("Bearer ", "");
+  const creates = () => server.requests.filter(r => r.method === "POST" && r.url.pathname.endsWith("/subscriptions"));
+
+  beforeEach(async () => {
+    streaming = createStreamingStandIn();
+    validToken = "initial-token";
+    created = 0;
+    server = await startStandInServer(request => {
+      if (request.url.pathname === "/token") {
+        validToken = "refreshed-token";
+        return { body: { access_token: validToken, token_type: "Bearer", expires_in: 1200, refresh_token: "refresh-token" } };
+      }
+      if (bearer(request) !== validToken) return { status: 401 };
+      if (request.url.pathname === "/port/v1/clients/me") {
+        return { body: { ClientId: "1", ClientKey: "client-key", Name: "Test Client" } };
+      }
+      if (request.method === "POST" && request.url.pathname === "/trade/v1/infoprices/subscriptions") {
+        const { ReferenceId } = JSON.parse(request.body);
+        // Every snapshot carries a new price, so a re-created subscription is visible in its quotes
+        const bid = 1 + ++created / 100;
+        return { status: 201, body: { ReferenceId, Snapshot: { Data: [{ Uic: 21, AssetType: "FxSpot", Quote: { Bid: bid, Ask: bid } }] } } };
+      }
+      return { status: 202 };
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+  });
+
+  const connect = (options: StreamingOptions = {}): Promise<Client> =>
+    createClient({ type: "token", token: "initial-token", refreshToken: "refresh-token", expiresIn: 1200 }, {
+      appKey: "app-key",
+      appSecret: "app-secret",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: server.url,
+      authEndpoint: server.url,
+      streamingEndpoint: `${server.url.replace("http", "ws")}/openapi`,
+      WebSocket: streaming.WebSocket,
+      streaming: { reconnect: { minDelay: 1, maxDelay: 5 }, ...options },
+    });
+
+  test("should re-create the subscriptions named in a reset", async () => {
+    const client = await connect();
+    const [reset, kept] = await Promise.all([client.subscribePrices([21]), client.subscribePrices([21])]);
+    const [resetId, keptId] = [reset.referenceId, kept.referenceId];
+
+    streaming.push("_resetsubscriptions", [{ ReferenceId: "_resetsubscriptions", TargetReferenceIds: [resetId] }]);
+    await until(() => reset.referenceId !== resetId);
+
+    expect(kept.referenceId).toBe(keptId);
+    expect(reset.quotes()[0].bid).toBe(1.03);
+    expect(server.requests.some(r => r.method === "DELETE" && r.url.pathname.endsWith(`/${resetId}`))).toBe(true);
+    streaming.push(reset.referenceId, [{ Uic: 21, Quote: { Bid: 1.5 } }]);
+    expect(reset.quotes()[0].bid).toBe(1.5);
+    await Promise.all([reset.unsubscribe(), kept.unsubscribe()]);
+  });
+
+  test("should reconnect under the same context and resubscribe after a drop", async () => {
+    const client = await connect();
+    const subscription = await client.subscribePrices([21]);
+    const [first] = streaming.sockets;
+    const referenceId = subscription.referenceId;
+
+    first.drop();
+    await until(() => subscription.referenceId !== referenceId);
+
+    expect(streaming.sockets).toHaveLength(2);
+    expect(streaming.sockets[1].url.searchParams.get("contextId")).toBe(first.url.searchParams.get("contextId"));
+    expect(JSON.parse(creates().at(-1)!.body).ContextId).toBe(first.url.searchParams.get("contextId"));
+    expect(subscription.quotes()[0].bid).toBe(1.02);
+    await subscription.unsubscribe();
+    expect(streaming.sockets[1].readyState).toBe(3);
+  });
+
+  test("should reconnect when the server asks to disconnect", async () => {
+    const client = await connect();
+    const subscription = await client.subscribePrices([21]);
+
+    streaming.push("_disconnect", [{ ReferenceId: "_disconnect" }]);
+    await until(() => creates().length === 2);
+
+    expect(streaming.sockets.map(socket => socket.readyState)).toEqual([3, 1]);
+    await subscription.unsubscribe();
+  });
+
+  test("should reconnect when heartbeats stop arriving", async () => {
+    const client = await connect({ heartbeatTimeout: 50 });
+    const subscription = await client.subscribePrices([21]);
+
+    await until(() => streaming.sockets.length === 2);
+    await until(() => creates().length === 2);
+
+    expect(streaming.sockets[0].readyState).toBe(3);
+    await subscription.unsubscribe();
+  });
+
+  test("should resubscribe permanently disabled subscriptions reported by heartbeats", async () => {
+    const client = await connect();
+    const subscription = await client.subscribePrices([21]);
+    const referenceId = subscription.referenceId;
+
+    streaming.push("_heartbeat", [{ ReferenceId: "_heartbeat", Heartbeats: [{ OriginatingReferenceId: referenceId, Reason: "NoNewData" }] }]);
+    await new Promise(resolve => setTimeout(resolve, 20));
+    expect(subscription.referenceId).toBe(referenceId);
+
+    streaming.push("_heartbeat", [{ ReferenceId: "_heartbeat", Heartbeats: [{ OriginatingReferenceId: referenceId, Reason: "SubscriptionPermanentlyDisabled" }] }]);
+    await until(() => subscription.referenceId !== referenceId);
+    expect(streaming.sockets).toHaveLength(1);
+    await subscription.unsubscribe();
+  });
+
+  test("should re-authorize the connection with a refreshed token", async () => {
+    const client = await connect();
+    const subscription = await client.subscribePrices([21]);
+    const contextId = streaming.sockets[0].url.searchParams.get("contextId");
+
+    // Revoking the token makes the next request refresh it
+    validToken = "revoked";
+    await client.getOrders().catch(() => undefined);
+    await until(() => server.requests.some(r => r.url.pathname === "/openapi/streamingws/authorize"));
+
+    const authorize = server.requests.find(r => r.url.pathname === "/openapi/streamingws/authorize")!;
+    expect(authorize.method).toBe("PUT");
+    expect(authorize.url.searchParams.get("contextid")).toBe(contextId);
+    expect(bearer(authorize)).toBe("refreshed-token");
+    expect(streaming.sockets).toHaveLength(1);
+    await subscription.unsubscribe();
+  });
+});
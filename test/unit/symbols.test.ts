@@ -0,0 +1,58 @@
+import { describe, test, expect, beforeEach } from "vitest";
+import { SaxoAmbiguousSymbolError, SaxoValidationError, type Account, type Client, type Position } from "../../src/index.js";
+import { createMockServer, type MockServer } from "../../src/mock.js";
+import { createMockClient } from "../utils.js";
+
+/**
+ * Symbol resolution tests
+ * Places orders by symbol against the in-process mock gateway
+ */
+describe("Symbols", () => {
+  let mock: MockServer;
+  let client: Client;
+  let account: Account;
+
+  const lookups = () => mock.requests.filter(r => r.path === "/ref/v1/instruments").length;
+
+  beforeEach(async () => {
+    mock = createMockServer({
+      instruments: [
+        { uic: 21, assetType: "FxSpot", symbol: "EURUSD", bid: 1.1, ask: 1.1002 },
+        { uic: 211, assetType: "Stock", symbol: "AAPL:xnas", description: "Apple Inc.", currency: "USD", exchangeId: "NASDAQ", bid: 200, ask: 200.1 },
+        { uic: 212, assetType: "CfdOnStock", symbol: "AAPL:xnas", description: "Apple Inc.", currency: "USD", exchangeId: "NASDAQ", bid: 200, ask: 200.1 },
+      ],
+    });
+    ({ client, account } = await createMockClient(mock));
+  });
+
+  test("should place orders by symbol and look each symbol up once", async () => {
+    const position = await account.buy("EURUSD", 10000, "market") as Position;
+    await account.sell("eurusd", 10000, "market");
+
+    expect(position.uic).toBe(21);
+    expect(mock.requests.filter(r => r.path === "/trade/v2/orders").map(r => [r.body.Uic, r.body.AssetType])).toEqual([[21, "FxSpot"], [21, "FxSpot"]]);
+    expect(lookups()).toBe(1);
+  });
+
+  test("should use the asset type of the resolved instrument", async () => {
+    await account.buy("AAPL:xnas", 10, "market", undefined, undefined, { assetType: "CfdOnStock" });
+
+    expect(mock.requests.find(r => r.path === "/trade/v2/orders")?.body).toMatchObject({ Uic: 212, AssetType: "CfdOnStock" });
+    await expect(client.resolveSymbol("AAPL:xnas", "Stock")).resolves.toMatchObject({ uic: 211, exchangeId: "NASDAQ" });
+    expect(lookups()).toBe(1);
+  });
+
+  test("should reject symbols matching several instruments", async () => {
+    const error = await account.buy("AAPL:xnas", 10, "market").catch(e => e);
+
+    expect(error).toBeInstanceOf(SaxoAmbiguousSymbolError);
+    expect(error.message).toContain("Stock, CfdOnStock");
+    expect(error.candidates.map((instrument: { uic: number }) => instrument.uic)).toEqual([211, 212]);
+    expect(mock.requests.some(r => r.path === "/trade/v2/orders")).toBe(false);
+  });
+
+  test("should reject unknown symbols", async () => {
+    await expect(account.buy("NOSUCH", 10000, "market")).rejects.toBeInstanceOf(SaxoValidationError);
+    await expect(client.resolveSymbol("EURUSD", "Stock")).rejects.toThrow("No Stock found with symbol EURUSD");
+  });
+});
@@ -0,0 +1,89 @@
+import { describe, test, expect, beforeEach, afterEach } from "vitest";
+import { mkdtemp, readFile, rm, stat } from "node:fs/promises";
+import { tmpdir } from "node:os";
+import { join } from "node:path";
+import { startStandInServer, type StandInServer } from "../utils.js";
+import { createClient, createFileTokenStore, createMemoryTokenStore, type AppConfig, type TokenStore } from "../../src/index.js";
+
+/**
+ * Token store tests
+ * Runs against a local stand-in for the auth server and API gateway
+ */
+describe("Token Store", () => {
+  let server: StandInServer;
+  let validTokens: Set<string>;
+  let directory: string;
+
+  beforeEach(async () => {
+    validTokens = new Set(["stored-token", "credentials-token"]);
+    directory = await mkdtemp(join(tmpdir(), "sxc-"));
+    server = await startStandInServer(request => {
+      if (request.url.pathname === "/token") {
+        validTokens.add("refreshed-token");
+        return { body: { access_token: "refreshed-token", token_type: "Bearer", expires_in: 1200, refresh_token: "next-refresh-token" } };
+      }
+      if (!validTokens.has(request.headers.authorization?.replace("Bearer ", "") ?? "")) return { status: 401 };
+      return { body: { ClientId: "1", ClientKey: "client-key", Name: "Test Client" } };
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await rm(directory, { recursive: true, force: true });
+  });
+
+  const config = (tokenStore: TokenStore): AppConfig => ({
+    appKey: "app-key",
+    appSecret: "app-secret",
+    redirectUri: "http://localhost:3000",
+    apiEndpoint: server.url,
+    authEndpoint: server.url,
+    tokenStore,
+  });
+
+  const bearers = () => server.requests.map(r => r.headers.authorization);
+
+  test("should resume from a persisted token instead of the credentials", async () => {
+    const store = createMemoryTokenStore({ accessToken: "stored-token", expiresAt: Date.now() + 600_000 });
+    await createClient({ type: "token", token: "credentials-token" }, config(store));
+
+    expect(bearers()).toEqual(["Bearer stored-token"]);
+  });
+
+  test("should persist the initial token and every refresh to a file", async () => {
+    const path = join(directory, "token.json");
+    const store = createFileTokenStore(path);
+    await createClient({ type: "token", token: "credentials-token", refreshToken: "refresh-token", expiresIn: 1200 }, config(store));
+
+    expect(JSON.parse(await readFile(path, "utf-8"))).toMatchObject({ accessToken: "credentials-token", refreshToken: "refresh-token" });
+    expect((await stat(path)).mode & 0o777).toBe(0o600);
+
+    // Restart with an expired access token, the stored refresh token is used
+    await store.set({ accessToken: "credentials-token", refreshToken: "refresh-token", expiresAt: Date.now() - 1000 });
+    await createClient({ type: "token", token: "credentials-token" }, config(store));
+
+    expect(await store.get()).toMatchObject({ accessToken: "refreshed-token", refreshToken: "next-refresh-token" });
+    expect(bearers().at(-1)).toBe("Bearer refreshed-token");
+  });
+
+  test("should log in again and replace a rejected token", async () => {
+    const store = createMemoryTokenStore({ accessToken: "revoked-token" });
+    await createClient({ type: "token", token: "credentials-token" }, config(store));
+
+    expect(bearers()).toEqual(["Bearer revoked-token", "Bearer credentials-token"]);
+    expect(await store.get()).toMatchObject({ accessToken: "credentials-token" });
+  });
+
+  test("should ignore a stored session that has fully expired", async () => {
+    const store = createMemoryTokenStore({ accessToken: "stored-token", expiresAt: Date.now() - 1000 });
+    await createClient({ type: "token", token: "credentials-token" }, config(store));
+
+    expect(bearers()).toEqual(["Bearer credentials-token"]);
+  });
+
+  test("should return nothing from an empty file store", async () => {
+    const store = createFileTokenStore(join(directory, "missing.json"));
+    expect(await store.get()).toBeUndefined();
+    await store.clear();
+  });
+});
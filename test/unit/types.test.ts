@@ -1,5 +1,5 @@
 import { describe, test, expect } from "vitest";
-import type { AssetType, OrderOptions, OrderDuration } from "../../src/index.js";
+import type { AssetType, OrderOptions, OrderDuration, OrderSpec } from "../../src/index.js";
 
 /**
  * Unit tests for TypeScript types and interfaces
@@ -84,4 +84,23 @@ describe("Type System", () => {
       });
     });
   });
-});
\ No newline at end of file
+
+  describe("OrderSpec", () => {
+    test("should require the prices of each order type", () => {
+      const specs: OrderSpec[] = [
+        { type: "buy", order_type: "market", uic: 21, quantity: 10000 },
+        { type: "buy", order_type: "limit", uic: "EURUSD", quantity: 10000, price: 1.09 },
+        { type: "sell", order_type: "stop_limit", uic: 21, quantity: 10000, price: 1.09, stop_limit: 1.089 },
+        { type: "sell", order_type: "trailing_stop", uic: 21, quantity: 10000, price: 1.09, distance: 0.002, step: 0.0005 },
+      ];
+      // @ts-expect-error market orders have no price
+      specs.push({ type: "buy", order_type: "market", uic: 21, quantity: 10000, price: 1.1 });
+      // @ts-expect-error stop orders need a trigger price
+      specs.push({ type: "buy", order_type: "stop", uic: 21, quantity: 10000 });
+      // @ts-expect-error stop limit orders need a limit price
+      specs.push({ type: "buy", order_type: "stop_limit", uic: 21, quantity: 10000, price: 1.1 });
+
+      expect(specs.map(spec => spec.order_type)).toEqual(["market", "limit", "stop_limit", "trailing_stop", "market", "stop", "stop_limit"]);
+    });
+  });
+});
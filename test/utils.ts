@@ -1,4 +1,12 @@
-import { createClient, type Client, type Account, type AssetType } from "../src/index.js";
+import { mkdir } from "node:fs/promises";
+import { createServer, type IncomingHttpHeaders } from "node:http";
+import type { AddressInfo } from "node:net";
+import { basename, join } from "node:path";
+import { fileURLToPath } from "node:url";
+import { afterAll, expect } from "vitest";
+import { createClient, type Client, type Account, type AssetType, type Fetch } from "../src/index.js";
+import { loadCassette, type Cassette } from "../src/cassette.js";
+import { createMockServer, type MockServer } from "../src/mock.js";
 
 // Shared test configuration
 export const SAXO_TOKEN = process.env.SAXO_SIM_TOKEN!;
@@ -6,6 +14,14 @@ export const SAXO_APP_KEY = process.env.SAXO_APP_KEY!;
 export const SAXO_APP_SECRET = process.env.SAXO_APP_SECRET!;
 export const SAXO_APP_REDIRECT_URI = process.env.SAXO_APP_REDIRECT_URI!;
 
+// "record" saves each suite's simulation traffic to test/cassettes, "replay" serves it back without network access
+export const CASSETTE = process.env.SAXO_CASSETTE as "record" | "replay" | undefined;
+const CASSETTE_DIR = fileURLToPath(new URL("cassettes", import.meta.url));
+
+// Without simulation credentials the suites run against the local mock gateway
+export const USE_MOCK = !CASSETTE && (!SAXO_TOKEN || process.env.SAXO_MOCK === "1");
+const OFFLINE = USE_MOCK || CASSETTE === "replay";
+
 // Test constants
 export const TEST_UIC = 21; // EURUSD
 export const TEST_ASSET_TYPE: AssetType = "FxSpot";
@@ -13,16 +29,43 @@ export const MIN_TRADE_AMOUNT = 10000; // 10,000 units (0.1 lot in forex)
 export const SMALL_TRADE_AMOUNT = 5000;
 
 // Helper functions
-export const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+export const delay = (ms: number) => OFFLINE ? Promise.resolve() : new Promise(resolve => setTimeout(resolve, ms));
+
+// One mock gateway per test file, so its orders and positions are shared by the file's tests
+let mock: { server: MockServer; url: string } | undefined;
+let cassette: Cassette | undefined;
+afterAll(async () => {
+  await mock?.server.close();
+  await cassette?.save();
+  mock = undefined;
+  cassette = undefined;
+});
 
 // Shared client setup
 export const createTestClient = async (): Promise<{ client: Client; account: Account }> => {
+  if (USE_MOCK && !mock) {
+    const server = createMockServer();
+    mock = { server, url: await server.listen() };
+  }
+  if (CASSETTE && !cassette) {
+    if (CASSETTE === "record") await mkdir(CASSETTE_DIR, { recursive: true });
+    cassette = await loadCassette({
+      path: join(CASSETTE_DIR, basename(expect.getState().testPath!).replace(/\.ts$/, ".json")),
+      mode: CASSETTE,
+      secrets: [SAXO_TOKEN, SAXO_APP_SECRET].filter(Boolean),
+    });
+  }
   const client = await createClient(
-    { type: "token", token: SAXO_TOKEN },
-    {
-      appKey: SAXO_APP_KEY,
+    { type: "token", token: OFFLINE ? "offline-token" : SAXO_TOKEN },
+    USE_MOCK ? {
+      appKey: "mock-app-key",
+      redirectUri: "http://localhost:3000",
+      apiEndpoint: mock!.url,
+    } : {
+      appKey: SAXO_APP_KEY ?? "offline-app-key",
       appSecret: SAXO_APP_SECRET,
-      redirectUri: SAXO_APP_REDIRECT_URI,
+      redirectUri: SAXO_APP_REDIRECT_URI ?? "http://localhost:3000",
+      fetch: cassette?.fetch,
     }
   );
 
@@ -32,9 +75,156 @@ export const createTestClient = async (): Promise<{ client: Client; account: Acc
   return { client, account };
 };
 
+// Client of an in-process mock gateway, for the unit tests that inspect or drive its state
+export const createMockClient = async (server: MockServer, fetch: Fetch = server.fetch): Promise<{ client: Client; account: Account }> => {
+  const client = await createClient({ type: "token", token: "token" }, {
+    appKey: "app-key",
+    redirectUri: "http://localhost:3000",
+    apiEndpoint: "https://gateway.saxobank.com/sim/openapi",
+    fetch,
+    retry: false,
+  });
+  const [account] = await client.getAccounts();
+
+  return { client, account };
+};
+
 // Test environment validation
 export const validateTestEnvironment = () => {
+  if (OFFLINE) return;
   if (!SAXO_TOKEN || !SAXO_APP_KEY || !SAXO_APP_SECRET || !SAXO_APP_REDIRECT_URI) {
     throw new Error("Missing required environment variables for testing");
   }
 };
+
+export interface StandInRequest {
+  method: string;
+  url: URL;
+  headers: IncomingHttpHeaders;
+  body: string;
+}
+
+export interface StandInResponse {
+  status?: number;
+  headers?: Record<string, string>;
+  body?: unknown;
+}
+
+export interface StandInServer {
+  url: string;
+  requests: StandInRequest[];
+  close(): Promise<void>;
+}
+
+// Local HTTP stand-in for the Saxo auth server and API gateway, used by the offline tests
+export const startStandInServer = async (
+  handler: (request: StandInRequest) => StandInResponse | Promise<StandInResponse>
+): Promise<StandInServer> => {
+  const requests: StandInRequest[] = [];
+  const server = createServer(async (req, res) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of req) chunks.push(chunk as Buffer);
+    const request = {
+      method: req.method ?? "GET",
+      url: new URL(req.url ?? "/", "http://localhost"),
+      headers: req.headers,
+      body: Buffer.concat(chunks).toString("utf-8"),
+    };
+    requests.push(request);
+    const { status = 200, headers = {}, body } = await handler(request);
+    res.writeHead(status, body === undefined ? headers : { "Content-Type": "application/json", ...headers });
+    res.end(body === undefined ? undefined : JSON.stringify(body));
+  });
+  await new Promise<void>(resolve => server.listen(0, "127.0.0.1", resolve));
+  const { port } = server.address() as AddressInfo;
+  return {
+    url: `http://127.0.0.1:${port}`,
+    requests,
+    close: () => new Promise<void>(resolve => server.close(() => resolve())),
+  };
+};
+
+/** Encodes messages in Saxo's binary streaming frame format */
+export const encodeStreamingFrame = (...messages: { messageId: number; referenceId: string; payload: unknown }[]): ArrayBuffer => {
+  const encoder = new TextEncoder();
+  const parts = messages.map(({ messageId, referenceId, payload }) => {
+    const reference = encoder.encode(referenceId);
+    const body = encoder.encode(JSON.stringify(payload));
+    const bytes = new Uint8Array(16 + reference.length + body.length);
+    const view = new DataView(bytes.buffer);
+    view.setBigUint64(0, BigInt(messageId), true);
+    view.setUint8(10, reference.length);
+    bytes.set(reference, 11);
+    view.setUint8(11 + reference.length, 0);
+    view.setInt32(12 + reference.length, body.length, true);
+    bytes.set(body, 16 + reference.length);
+    return bytes;
+  });
+  const frame = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+  parts.reduce((offset, part) => (frame.set(part, offset), offset + part.length), 0);
+  return frame.buffer;
+};
+
+export interface StandInSocket {
+  url: URL;
+  readyState: number;
+  /** Delivers a frame to the client */
+  receive(frame: ArrayBuffer): void;
+  /** Closes the connection from the server side */
+  drop(code?: number): void;
+}
+
+export interface StreamingStandIn {
+  /** Pass as the WebSocket config option */
+  WebSocket: typeof WebSocket;
+  sockets: StandInSocket[];
+  /** Sends a message to the most recent connection */
+  push(referenceId: string, payload: unknown): void;
+}
+
+// In-memory stand-in for the Saxo streaming WebSocket, used by the offline streaming tests
+export const createStreamingStandIn = (): StreamingStandIn => {
+  const sockets: StandInSocket[] = [];
+  let messageId = 0;
+
+  class StandInWebSocket {
+    url: URL;
+    readyState = 0;
+    binaryType = "blob";
+    onopen: ((event: unknown) => void) | null = null;
+    onmessage: ((event: { data: ArrayBuffer }) => void) | null = null;
+    onclose: ((event: { code: number; reason: string }) => void) | null = null;
+    onerror: ((event: unknown) => void) | null = null;
+
+    constructor(url: string) {
+      this.url = new URL(url);
+      sockets.push(this);
+      setTimeout(() => {
+        this.readyState = 1;
+        this.onopen?.({});
+      });
+    }
+
+    send() {}
+
+    receive(frame: ArrayBuffer) {
+      this.onmessage?.({ data: frame });
+    }
+
+    close(code = 1000, reason = "") {
+      if (this.readyState === 3) return;
+      this.readyState = 3;
+      setTimeout(() => this.onclose?.({ code, reason }));
+    }
+
+    drop(code = 1006) {
+      this.close(code);
+    }
+  }
+
+  return {
+    WebSocket: StandInWebSocket as unknown as typeof WebSocket,
+    sockets,
+    push: (referenceId, payload) => sockets.at(-1)!.receive(encodeStreamingFrame({ messageId: ++messageId, referenceId, payload })),
+  };
+};